@@ -0,0 +1,729 @@
+/**
+ * In-memory fake of the global `eagle` plugin object for unit tests.
+ * @module
+ */
+
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { BareItems, type BareLibrary } from '../universal/bareio';
+import type { PlainItem } from '../universal/models';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type EagleApi = typeof eagle;
+/** Namespaces of the `eagle` global the fake implements, in part */
+type FakeEagleNamespace = 'library' | 'item' | 'folder' | 'tag' | 'tagGroup' | 'os' | 'app';
+type FakeEagleEventHandler =
+  | 'onPluginCreate'
+  | 'onPluginRun'
+  | 'onPluginBeforeExit'
+  | 'onPluginShow'
+  | 'onPluginHide'
+  | 'onLibraryChanged'
+  | 'onThemeChanged';
+/** What the fake provides, checked member by member against the `eagle` typings */
+type FakeEagleApi = Pick<EagleApi, FakeEagleEventHandler> & {
+  [K in FakeEagleNamespace]: Partial<EagleApi[K]>;
+};
+type ItemQueryOptions = Parameters<EagleApi['item']['get']>[0];
+type PluginContext = Parameters<Parameters<EagleApi['onPluginCreate']>[0]>[0];
+type ThemeName = Parameters<Parameters<EagleApi['onThemeChanged']>[0]>[0];
+type FolderIconColor = Folder['iconColor'];
+type TagGroupColor = TagGroup['color'];
+
+/** Item fixture; anything omitted gets an empty default */
+export type FakeEagleItemData = Partial<PlainItem> & { id: string };
+
+export interface FakeEagleFolderData {
+  id: string;
+  name: string;
+  description?: string;
+  iconColor?: string;
+  createdAt?: number;
+  children?: FakeEagleFolderData[];
+}
+
+export interface FakeEagleTagGroupData {
+  id?: string;
+  name: string;
+  color?: string;
+  tags: string[];
+  description?: string;
+}
+
+/**
+ * In-memory library. Only `path` is required; the name is derived from it.
+ */
+export interface FakeEagleLibrary {
+  path: string;
+  items?: FakeEagleItemData[];
+  folders?: FakeEagleFolderData[];
+  tagGroups?: FakeEagleTagGroupData[];
+  recentTags?: string[];
+  starredTags?: string[];
+}
+
+export type FakeEagleSource = FakeEagleLibrary | BareLibrary;
+
+export interface FakeEagleOptions {
+  /** Initial library (default: an empty library at `/mock/Mock.library`) */
+  library?: FakeEagleSource;
+  /** Libraries reachable via `switchLibrary()`, keyed by path */
+  libraries?: Record<string, FakeEagleSource>;
+  /** Value of `eagle.os.homedir()` (default: `os.homedir()`) */
+  homedir?: string;
+  /** Value of `eagle.app.platform` (default: 'win32') */
+  platform?: 'darwin' | 'win32';
+  /** Value of `eagle.app.version` (default: '4.0.0') */
+  version?: string;
+  /** Context passed to `onPluginCreate` callbacks */
+  plugin?: PluginContext;
+}
+
+export type FakeEagleEvent =
+  | 'pluginCreate'
+  | 'pluginRun'
+  | 'pluginShow'
+  | 'pluginHide'
+  | 'pluginBeforeExit'
+  | 'libraryChanged'
+  | 'themeChanged';
+
+/** Current library contents; tests may read or modify it directly */
+export interface FakeEagleState {
+  libraryPath: string;
+  items: Map<string, PlainItem>;
+  folders: FakeEagleFolderData[];
+  tagGroups: Required<Pick<FakeEagleTagGroupData, 'id' | 'name' | 'color' | 'tags'>>[];
+  recentTags: string[];
+  starredTags: string[];
+  selectedItemIds: string[];
+  selectedFolderIds: string[];
+  recentFolderIds: string[];
+  modificationTime: number;
+}
+
+type Listener = (...args: never[]) => void;
+
+// ============================================================================
+// Fake
+// ============================================================================
+
+/**
+ * Fake `eagle` global covering `library`, `item`, `folder`, `tag`, `tagGroup`,
+ * `os`, `app` and the plugin/library events. Other namespaces are absent.
+ * Changes stay in memory; a `BareLibrary` source is only read.
+ *
+ * @example
+ * const fake = await FakeEagle.create({ library: { path: '/libs/Test.library', items } });
+ * const restore = fake.install();
+ * fake.selectItems(['ITEM1']);
+ * // ... code under test reads `eagle.item.getSelected()`
+ * restore();
+ */
+export class FakeEagle {
+  readonly eagle: EagleApi;
+  state: FakeEagleState;
+
+  private readonly options: FakeEagleOptions;
+  private readonly listeners = new Map<FakeEagleEvent, Set<Listener>>();
+
+  private constructor(options: FakeEagleOptions, state: FakeEagleState) {
+    this.options = options;
+    this.state = state;
+    this.eagle = this.createApi();
+  }
+
+  static async create(options: FakeEagleOptions = {}): Promise<FakeEagle> {
+    const state = await loadState(options.library ?? { path: '/mock/Mock.library' });
+    return new FakeEagle(options, state);
+  }
+
+  /**
+   * Sets `globalThis.eagle` to this fake. Returns a function restoring the previous value.
+   */
+  install(): () => void {
+    const hadPrevious = Reflect.has(globalThis, 'eagle');
+    const previous: unknown = Reflect.get(globalThis, 'eagle');
+    Reflect.set(globalThis, 'eagle', this.eagle);
+    return () => {
+      if (hadPrevious) Reflect.set(globalThis, 'eagle', previous);
+      else Reflect.deleteProperty(globalThis, 'eagle');
+    };
+  }
+
+  /** Replaces the item selection */
+  selectItems(ids: string[]): void {
+    this.state.selectedItemIds = [...ids];
+  }
+
+  /** Replaces the folder selection */
+  selectFolders(ids: string[]): void {
+    this.state.selectedFolderIds = [...ids];
+    this.touchFolders(ids);
+  }
+
+  /**
+   * Loads another library (from `libraries`, or empty) and fires `onLibraryChanged`.
+   */
+  async switchLibrary(libraryPath: string): Promise<void> {
+    const source = this.options.libraries?.[libraryPath] ?? { path: libraryPath };
+    this.state = { ...(await loadState(source)), libraryPath };
+    this.emit('libraryChanged', libraryPath);
+  }
+
+  /** Fires the callbacks registered for `event` */
+  emit(event: FakeEagleEvent, ...args: unknown[]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      (listener as (...values: unknown[]) => void)(...args);
+    }
+  }
+
+  show(): void {
+    this.emit('pluginShow');
+  }
+
+  hide(): void {
+    this.emit('pluginHide');
+  }
+
+  exit(): void {
+    this.emit('pluginBeforeExit');
+  }
+
+  private on(event: FakeEagleEvent, listener: Listener): void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+  }
+
+  private createApi(): EagleApi {
+    const homedir = this.options.homedir ?? os.homedir();
+    const platform = this.options.platform ?? 'win32';
+    const plugin = this.options.plugin ?? {
+      manifest: { name: 'fake-plugin' },
+      path: '/mock/plugin',
+    };
+
+    const api: FakeEagleApi = {
+      onPluginCreate: (callback: (plugin: PluginContext) => void) => {
+        this.on('pluginCreate', callback);
+        // Eagle calls this once the plugin is ready; the fake is always ready
+        queueMicrotask(() => callback(plugin));
+      },
+      onPluginRun: (callback: () => void) => this.on('pluginRun', callback),
+      onPluginBeforeExit: (callback: () => void) => this.on('pluginBeforeExit', callback),
+      onPluginShow: (callback: () => void) => this.on('pluginShow', callback),
+      onPluginHide: (callback: () => void) => this.on('pluginHide', callback),
+      onLibraryChanged: (callback: (libraryPath: string) => void) =>
+        this.on('libraryChanged', callback),
+      onThemeChanged: (callback: (theme: ThemeName) => void) => this.on('themeChanged', callback),
+
+      library: this.createLibraryApi(),
+      item: this.createItemApi(),
+      folder: this.createFolderApi(),
+      tag: this.createTagApi(),
+      tagGroup: this.createTagGroupApi(),
+
+      os: {
+        tmpdir: () => os.tmpdir(),
+        version: () => 'fake',
+        type: () => (platform === 'win32' ? 'Windows_NT' : 'Darwin'),
+        release: () => 'fake',
+        hostname: () => 'fake-host',
+        homedir: () => homedir,
+        arch: () => 'x64',
+      },
+
+      app: {
+        isDarkColors: () => false,
+        getPath: async (name: string) => {
+          if (name === 'home') return homedir;
+          if (name === 'temp') return os.tmpdir();
+          return path.join(homedir, name);
+        },
+        show: async () => true,
+        version: this.options.version ?? '4.0.0',
+        build: 0,
+        locale: 'en',
+        arch: 'x64',
+        platform,
+        env: {},
+        execPath: '/mock/Eagle',
+        pid: process.pid,
+        isWindows: platform === 'win32',
+        isMac: platform === 'darwin',
+        runningUnderARM64Translation: false,
+        theme: 'LIGHT',
+        userDataPath: path.join(homedir, '.eagle-fake'),
+      },
+    };
+
+    // Namespaces and members the fake lacks are absent at runtime, as documented on the class
+    return api as EagleApi;
+  }
+
+  private createLibraryApi(): Partial<EagleApi['library']> {
+    // Getters can't be arrows, so read the (replaceable) state through a closure
+    const state = () => this.state;
+    return {
+      info: async () => ({
+        path: state().libraryPath,
+        name: libraryName(state().libraryPath),
+        modificationTime: state().modificationTime,
+      }),
+      get path() {
+        return state().libraryPath;
+      },
+      get name() {
+        return libraryName(state().libraryPath);
+      },
+      get modificationTime() {
+        return state().modificationTime;
+      },
+    };
+  }
+
+  private createItemApi(): Partial<EagleApi['item']> {
+    const all = () => [...this.state.items.values()].filter((item) => !item.isDeleted);
+    const selected = () =>
+      this.state.selectedItemIds.flatMap((id) => {
+        const item = this.state.items.get(id);
+        return item ? [item] : [];
+      });
+    const query = (options: ItemQueryOptions = {}) =>
+      all().filter((item) => this.matchesQuery(item, options));
+
+    const add = async (source: string, options: ItemAddOptions = {}, ext?: string) => {
+      const item = this.addItem(source, options, ext);
+      return item.id;
+    };
+
+    return {
+      get: async (options: ItemQueryOptions) => query(options).map((item) => this.toItem(item)),
+      getAll: async () => all().map((item) => this.toItem(item)),
+      getById: async (itemId: string) => {
+        const item = this.state.items.get(itemId);
+        return item ? this.toItem(item) : missing<Item>();
+      },
+      getByIds: async (itemIds: string[]) =>
+        itemIds.flatMap((id) => {
+          const item = this.state.items.get(id);
+          return item ? [this.toItem(item)] : [];
+        }),
+      getSelected: async () => selected().map((item) => this.toItem(item)),
+      getIdsWithModifiedAt: async () =>
+        all().map((item) => ({ id: item.id, modifiedAt: item.modifiedAt })),
+      count: async (options: ItemQueryOptions) => query(options).length,
+      countAll: async () => all().length,
+      countSelected: async () => selected().length,
+      select: async (itemIds: string[]) => {
+        this.selectItems(itemIds);
+        return true;
+      },
+      addFromURL: async (url: string, options?: ItemAddOptions) => add(url, options),
+      addFromBase64: async (_base64: string, options?: ItemAddOptions) => add('', options, 'png'),
+      addFromPath: async (filePath: string, options?: ItemAddOptions) => add(filePath, options),
+      addBookmark: async (url: string, options?: ItemAddOptions) => add(url, options, 'url'),
+      open: async () => true,
+    };
+  }
+
+  private createFolderApi(): Partial<EagleApi['folder']> {
+    const all = () => flattenFolders(this.state.folders);
+    const byIds = (ids: string[]) =>
+      ids.flatMap((id) => {
+        const found = all().find((entry) => entry.folder.id === id);
+        return found ? [this.toFolder(found.folder, found.parent)] : [];
+      });
+    const create = async (options: { name: string; description?: string; parent?: string }) => {
+      const folder: FakeEagleFolderData = {
+        id: BareItems.generateId(),
+        name: options.name,
+        description: options.description ?? '',
+        createdAt: Date.now(),
+        children: [],
+      };
+      const parent = options.parent
+        ? all().find((entry) => entry.folder.id === options.parent)?.folder
+        : undefined;
+      if (options.parent && !parent) throw new Error(`Folder does not exist: ${options.parent}`);
+      if (parent) (parent.children ??= []).push(folder);
+      else this.state.folders.push(folder);
+      this.touchFolders([folder.id]);
+      return this.toFolder(folder, parent?.id ?? null);
+    };
+
+    return {
+      create,
+      createSubfolder: async (parentId: string, options: { name: string; description?: string }) =>
+        create({ ...options, parent: parentId }),
+      get: async (options: {
+        id?: string;
+        ids?: string[];
+        isSelected?: boolean;
+        isRecent?: boolean;
+      }) => {
+        let folders = all().map((entry) => this.toFolder(entry.folder, entry.parent));
+        if (options.id) folders = folders.filter((folder) => folder.id === options.id);
+        if (options.ids) folders = folders.filter((folder) => options.ids?.includes(folder.id));
+        if (options.isSelected) {
+          folders = folders.filter((folder) => this.state.selectedFolderIds.includes(folder.id));
+        }
+        if (options.isRecent) {
+          folders = folders.filter((folder) => this.state.recentFolderIds.includes(folder.id));
+        }
+        return folders;
+      },
+      getAll: async () => all().map((entry) => this.toFolder(entry.folder, entry.parent)),
+      getById: async (folderId: string) => byIds([folderId])[0] ?? missing<Folder>(),
+      getByIds: async (folderIds: string[]) => byIds(folderIds),
+      getSelected: async () => byIds(this.state.selectedFolderIds),
+      getRecents: async () => byIds(this.state.recentFolderIds),
+      open: async (folderId: string) => {
+        this.selectFolders([folderId]);
+      },
+      IconColor: {
+        Red: 'red',
+        Orange: 'orange',
+        Yellow: 'yellow',
+        Green: 'green',
+        Aqua: 'aqua',
+        Blue: 'blue',
+        Purple: 'purple',
+        Pink: 'pink',
+      },
+    };
+  }
+
+  private createTagApi(): Partial<EagleApi['tag']> {
+    return {
+      get: async (options: { name?: string } = {}) =>
+        this.tagNames()
+          .filter((name) => !options.name || name.includes(options.name))
+          .map((name) => this.toTag(name)),
+      getRecentTags: async () => this.state.recentTags.map((name) => this.toTag(name)),
+      getStarredTags: async () => this.state.starredTags.map((name) => this.toTag(name)),
+      merge: async (options: { source: string; target: string }) => ({
+        affectedItems: this.renameTag(options.source, options.target),
+        sourceRemoved: true,
+      }),
+    };
+  }
+
+  private createTagGroupApi(): Partial<EagleApi['tagGroup']> {
+    return {
+      get: async () => this.state.tagGroups.map((group) => this.toTagGroup(group)),
+      create: async (options: {
+        name: string;
+        color: TagGroupColor;
+        tags: string[];
+        description?: string;
+      }) => {
+        const group = { id: BareItems.generateId(), ...options, tags: [...options.tags] };
+        this.state.tagGroups.push(group);
+        return this.toTagGroup(group);
+      },
+    };
+  }
+
+  private matchesQuery(item: PlainItem, options: ItemQueryOptions): boolean {
+    const contains = (value: string, search: string) =>
+      value.toLowerCase().includes(search.toLowerCase());
+    return (
+      (!options.id || item.id === options.id) &&
+      (!options.ids || options.ids.includes(item.id)) &&
+      (!options.isSelected || this.state.selectedItemIds.includes(item.id)) &&
+      (!options.isUntagged || item.tags.length === 0) &&
+      (!options.isUnfiled || item.folders.length === 0) &&
+      (!options.keywords || options.keywords.every((keyword) => contains(item.name, keyword))) &&
+      (!options.tags || options.tags.every((tag) => item.tags.includes(tag))) &&
+      (!options.folders || options.folders.some((id) => item.folders.includes(id))) &&
+      (!options.ext || item.ext.toLowerCase() === options.ext.toLowerCase()) &&
+      (!options.annotation || contains(item.annotation, options.annotation)) &&
+      (options.rating === undefined || item.star === options.rating) &&
+      (!options.url || contains(item.url, options.url))
+    );
+  }
+
+  private addItem(source: string, options: ItemAddOptions, ext?: string): PlainItem {
+    const id = BareItems.generateId();
+    const now = Date.now();
+    const item = createPlainItem(this.state.libraryPath, {
+      id,
+      name: options.name ?? (path.basename(source, path.extname(source)) || id),
+      ext: ext ?? (path.extname(source).slice(1) || 'jpg'),
+      url: options.website ?? (ext === 'url' ? source : ''),
+      annotation: options.annotation ?? '',
+      tags: options.tags ?? [],
+      folders: options.folders ?? [],
+      importedAt: now,
+      modifiedAt: now,
+    });
+    this.state.items.set(id, item);
+    this.state.modificationTime = now;
+    return item;
+  }
+
+  private toItem(data: PlainItem): Item {
+    const exists = async () => this.state.items.has(item.id);
+    const item = {
+      ...structuredClone(data),
+      save: async () => {
+        const current = this.state.items.get(item.id);
+        if (!current) return false;
+        Object.assign(current, pickEditable(item), { modifiedAt: Date.now() });
+        return true;
+      },
+      moveToTrash: async () => {
+        const current = this.state.items.get(item.id);
+        if (!current) return false;
+        current.isDeleted = true;
+        return true;
+      },
+      replaceFile: exists,
+      refreshThumbnail: exists,
+      setCustomThumbnail: exists,
+      open: async () => undefined,
+      select: async () => {
+        this.selectItems([item.id]);
+        return true;
+      },
+    };
+    // `star` is undefined for unrated items, though the typings say number
+    return item as Item;
+  }
+
+  private toFolder(data: FakeEagleFolderData, parent: string | null): Folder {
+    const folder = {
+      id: data.id,
+      name: data.name,
+      description: data.description ?? '',
+      icon: '',
+      iconColor: (data.iconColor ?? '') as FolderIconColor,
+      createdAt: data.createdAt ?? 0,
+      parent,
+      children: (data.children ?? []).map((child) => this.toFolder(child, data.id)),
+      save: async () => {
+        Object.assign(data, {
+          name: folder.name,
+          description: folder.description,
+          iconColor: folder.iconColor,
+        });
+      },
+      open: async () => {
+        this.selectFolders([data.id]);
+      },
+    };
+    return folder;
+  }
+
+  private toTag(name: string): Tag {
+    const tag = {
+      name,
+      count: [...this.state.items.values()].filter((item) => item.tags.includes(name)).length,
+      groups: this.state.tagGroups.filter((group) => group.tags.includes(name)).map((g) => g.id),
+      save: async () => {
+        if (tag.name !== name) this.renameTag(name, tag.name);
+        return true;
+      },
+    };
+    return tag;
+  }
+
+  private toTagGroup(data: FakeEagleState['tagGroups'][number]): TagGroup {
+    const group: TagGroup = {
+      ...structuredClone(data),
+      color: data.color as TagGroupColor,
+      save: async () => {
+        Object.assign(data, { name: group.name, color: group.color, tags: [...group.tags] });
+        return group;
+      },
+      remove: async () => {
+        this.state.tagGroups = this.state.tagGroups.filter((other) => other !== data);
+        return true;
+      },
+      addTags: async (options) => {
+        if (options.removeFromSource) {
+          for (const other of this.state.tagGroups) {
+            other.tags = other.tags.filter((tag) => !options.tags.includes(tag));
+          }
+        }
+        data.tags = [...new Set([...data.tags, ...options.tags])];
+        group.tags = [...data.tags];
+        return group;
+      },
+      removeTags: async (options) => {
+        data.tags = data.tags.filter((tag) => !options.tags.includes(tag));
+        group.tags = [...data.tags];
+        return group;
+      },
+    };
+    return group;
+  }
+
+  private tagNames(): string[] {
+    const names = new Set<string>();
+    for (const item of this.state.items.values()) item.tags.forEach((tag) => names.add(tag));
+    for (const group of this.state.tagGroups) group.tags.forEach((tag) => names.add(tag));
+    return [...names].sort();
+  }
+
+  private renameTag(source: string, target: string): number {
+    let affected = 0;
+    for (const item of this.state.items.values()) {
+      if (!item.tags.includes(source)) continue;
+      item.tags = [...new Set(item.tags.map((tag) => (tag === source ? target : tag)))];
+      affected++;
+    }
+    for (const group of this.state.tagGroups) {
+      group.tags = [...new Set(group.tags.map((tag) => (tag === source ? target : tag)))];
+    }
+    return affected;
+  }
+
+  private touchFolders(ids: string[]): void {
+    this.state.recentFolderIds = [
+      ...ids,
+      ...this.state.recentFolderIds.filter((id) => !ids.includes(id)),
+    ];
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface ItemAddOptions {
+  name?: string;
+  website?: string;
+  tags?: string[];
+  folders?: string[];
+  annotation?: string;
+}
+
+async function loadState(source: FakeEagleSource): Promise<FakeEagleState> {
+  const base = {
+    selectedItemIds: [],
+    selectedFolderIds: [],
+    recentFolderIds: [],
+    modificationTime: Date.now(),
+  };
+
+  if (!isBareLibrary(source)) {
+    return {
+      ...base,
+      libraryPath: source.path,
+      items: new Map(
+        (source.items ?? []).map((item) => [item.id, createPlainItem(source.path, item)])
+      ),
+      folders: structuredClone(source.folders ?? []),
+      tagGroups: (source.tagGroups ?? []).map(normalizeTagGroup),
+      recentTags: [...(source.recentTags ?? [])],
+      starredTags: [...(source.starredTags ?? [])],
+    };
+  }
+
+  const rootPath = source.core.rootPath;
+  const meta = await source.readLibraryMetadata();
+  const tags = await source.core.readTagsIndex().catch(() => undefined);
+  const items = new Map<string, PlainItem>();
+  for await (const meta of source.items.iterateItems()) {
+    items.set(
+      meta.id,
+      createPlainItem(rootPath, {
+        ...meta,
+        star: typeof meta.star === 'number' ? meta.star : undefined,
+        importedAt: meta.modificationTime,
+        modifiedAt: meta.lastModified,
+      })
+    );
+  }
+
+  return {
+    ...base,
+    libraryPath: rootPath,
+    items,
+    folders: meta.folders,
+    tagGroups: meta.tagsGroups.map(normalizeTagGroup),
+    recentTags: tags?.historyTags ?? [],
+    starredTags: tags?.starredTags ?? [],
+    modificationTime: meta.modificationTime,
+  };
+}
+
+/** Eagle resolves unknown IDs to undefined, though its typings promise a value */
+function missing<T>(): T {
+  return undefined as T;
+}
+
+function isBareLibrary(source: FakeEagleSource): source is BareLibrary {
+  return 'core' in source;
+}
+
+function createPlainItem(libraryPath: string, data: FakeEagleItemData): PlainItem {
+  const name = data.name ?? data.id;
+  const ext = data.ext ?? 'jpg';
+  const infoDir = path.join(libraryPath, 'images', `${data.id}.info`);
+  const filePath = data.filePath ?? path.join(infoDir, `${name}.${ext}`);
+  const thumbnailPath = data.thumbnailPath ?? path.join(infoDir, `${name}_thumbnail.png`);
+  return {
+    name,
+    ext,
+    width: 0,
+    height: 0,
+    url: '',
+    isDeleted: false,
+    annotation: '',
+    tags: [],
+    folders: [],
+    palettes: [],
+    size: 0,
+    star: undefined,
+    importedAt: 0,
+    modifiedAt: 0,
+    noThumbnail: false,
+    noPreview: false,
+    fileURL: pathToFileURL(filePath).href,
+    thumbnailURL: pathToFileURL(thumbnailPath).href,
+    metadataFilePath: path.join(infoDir, 'metadata.json'),
+    ...structuredClone(data),
+    filePath,
+    thumbnailPath,
+  };
+}
+
+/** Fields an `Item.save()` writes back */
+function pickEditable(item: PlainItem): Partial<PlainItem> {
+  const { name, url, annotation, tags, folders, star, width, height } = item;
+  return { name, url, annotation, tags: [...tags], folders: [...folders], star, width, height };
+}
+
+function normalizeTagGroup(group: FakeEagleTagGroupData): FakeEagleState['tagGroups'][number] {
+  return {
+    id: group.id ?? BareItems.generateId(),
+    name: group.name,
+    color: group.color ?? '',
+    tags: [...group.tags],
+  };
+}
+
+function flattenFolders(
+  folders: FakeEagleFolderData[],
+  parent: string | null = null
+): { folder: FakeEagleFolderData; parent: string | null }[] {
+  return folders.flatMap((folder) => [
+    { folder, parent },
+    ...flattenFolders(folder.children ?? [], folder.id),
+  ]);
+}
+
+function libraryName(libraryPath: string): string {
+  return path.basename(libraryPath, '.library');
+}
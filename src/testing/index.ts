@@ -0,0 +1,24 @@
+/**
+ * Test support - fakes of Eagle for running consumers outside the app
+ * @module testing
+ */
+
+export { MockEagleServer } from './mock-server';
+export type {
+  MockEagleFixture,
+  MockEagleSource,
+  MockEagleServerOptions,
+  MockEagleState,
+  MockEagleRequest,
+} from './mock-server';
+export { FakeEagle } from './fake-eagle';
+export type {
+  FakeEagleItemData,
+  FakeEagleFolderData,
+  FakeEagleTagGroupData,
+  FakeEagleLibrary,
+  FakeEagleSource,
+  FakeEagleOptions,
+  FakeEagleEvent,
+  FakeEagleState,
+} from './fake-eagle';
@@ -0,0 +1,620 @@
+/**
+ * In-process fake of Eagle's localhost HTTP API for testing `EagleWebApi` consumers.
+ * @module
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import {
+  BareItems,
+  type BareLibrary,
+  type ItemMetadata,
+  type LibraryFolder,
+} from '../universal/bareio';
+import type {
+  EagleWebApiApplicationInfo,
+  EagleWebApiFolder,
+  EagleWebApiItem,
+  EagleWebApiLibraryInfo,
+  EagleWebApiTag,
+  EagleWebApiTagGroup,
+  EagleWebApiTagMergeResult,
+} from '../universal/webapi';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * In-memory library served by the mock. Every field is optional;
+ * the library path defaults to `/mock/Mock.library`.
+ */
+export interface MockEagleFixture {
+  items?: EagleWebApiItem[];
+  folders?: EagleWebApiFolder[];
+  libraryPath?: string;
+  smartFolders?: EagleWebApiLibraryInfo['smartFolders'];
+  quickAccess?: EagleWebApiLibraryInfo['quickAccess'];
+  tagsGroups?: EagleWebApiLibraryInfo['tagsGroups'];
+  /** Tag names, most recently used first */
+  recentTags?: string[];
+  starredTags?: string[];
+  /** IDs of the items selected in the main window */
+  selection?: string[];
+}
+
+export type MockEagleSource = MockEagleFixture | BareLibrary;
+
+export interface MockEagleServerOptions {
+  /** Initial library: an in-memory fixture or a `BareLibrary` fixture directory */
+  library?: MockEagleSource;
+  /** Libraries reachable via `library/switch`, keyed by path */
+  libraries?: Record<string, MockEagleSource>;
+  /** Token required on every route except `application/info` (default: 'mock-token') */
+  token?: string;
+  /** Reported Eagle version (default: '4.0.0') */
+  version?: string;
+  /** Port to listen on, 0 = random (default: 0) */
+  port?: number;
+  host?: string;
+}
+
+/** Mutable state behind the mock; tests may read or modify it directly */
+export interface MockEagleState {
+  libraryPath: string;
+  items: Map<string, EagleWebApiItem>;
+  folders: EagleWebApiFolder[];
+  smartFolders: EagleWebApiLibraryInfo['smartFolders'];
+  quickAccess: EagleWebApiLibraryInfo['quickAccess'];
+  tagsGroups: EagleWebApiLibraryInfo['tagsGroups'];
+  /** Folder IDs, most recently used first */
+  recentFolders: string[];
+  /** Tag names, most recently used first */
+  recentTags: string[];
+  starredTags: string[];
+  selection: string[];
+  history: string[];
+}
+
+export interface MockEagleRequest {
+  method: string;
+  /** API path without the `/api/` prefix, e.g. `item/list` */
+  endpoint: string;
+  query: Record<string, string | string[]>;
+  body: unknown;
+}
+
+type Params = Record<string, unknown>;
+type Handler = (params: Params) => unknown;
+
+class MockEagleHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MockEagleHttpError';
+  }
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Serves `/api/application/*`, `/api/item/*`, `/api/folder/*`, `/api/library/*`,
+ * `/api/tag/*` and `/api/tagGroup/*` from memory. A `BareLibrary` source is loaded once; changes made through the API
+ * stay in memory and never touch the fixture directory.
+ *
+ * @example
+ * const server = await MockEagleServer.start({ library: new BareLibrary(fixtureDir) });
+ * const api = new EagleWebApi({ baseUrl: server.url, token: server.token });
+ * // ...
+ * await server.close();
+ */
+export class MockEagleServer {
+  readonly token: string;
+  readonly version: string;
+  readonly state: MockEagleState;
+  /** Every request received, in order */
+  readonly requests: MockEagleRequest[] = [];
+
+  private readonly server: Server;
+  private readonly libraries: Record<string, MockEagleSource>;
+  private readonly routes: Record<string, Handler>;
+
+  private constructor(options: MockEagleServerOptions, state: MockEagleState) {
+    this.token = options.token ?? 'mock-token';
+    this.version = options.version ?? '4.0.0';
+    this.libraries = options.libraries ?? {};
+    this.state = state;
+    this.routes = this.createRoutes();
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  static async start(options: MockEagleServerOptions = {}): Promise<MockEagleServer> {
+    const state = await loadState(options.library ?? {});
+    const mock = new MockEagleServer(options, state);
+    await new Promise<void>((resolve, reject) => {
+      mock.server.once('error', reject);
+      mock.server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+        mock.server.off('error', reject);
+        resolve();
+      });
+    });
+    return mock;
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /** Base URL to pass to `EagleWebApi` */
+  get url(): string {
+    const { address, family } = this.server.address() as AddressInfo;
+    const host = family === 'IPv6' ? `[${address}]` : address;
+    return `http://${host}:${this.port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const endpoint = url.pathname.replace(/^\/api\//, '');
+      const query = parseQuery(url.searchParams);
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      this.requests.push({ method: req.method ?? 'GET', endpoint, query, body });
+
+      const route = url.pathname.startsWith('/api/') ? this.routes[endpoint] : undefined;
+      if (!route) throw new MockEagleHttpError(404, `Unknown endpoint: ${url.pathname}`);
+
+      if (endpoint !== 'application/info' && query.token !== this.token) {
+        throw new MockEagleHttpError(401, 'Invalid or missing token');
+      }
+
+      const params = { ...query, ...(isRecord(body) ? body : {}) };
+      sendJson(res, 200, { status: 'success', data: await route(params) });
+    } catch (error) {
+      const status = error instanceof MockEagleHttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      sendJson(res, status, { status: 'error', message });
+    }
+  }
+
+  private createRoutes(): Record<string, Handler> {
+    return {
+      'application/info': () => this.applicationInfo(),
+
+      'item/list': (params) => this.listItems(params),
+      'item/info': (params) => this.getItem(params.id),
+      'item/thumbnail': (params) => {
+        const item = this.getItem(params.id);
+        return path.join(
+          this.state.libraryPath,
+          'images',
+          `${item.id}.info`,
+          `${item.name}_thumbnail.png`
+        );
+      },
+      'item/update': (params) => {
+        const item = this.getItem(params.id);
+        for (const key of ['tags', 'annotation', 'url', 'star'] as const) {
+          if (params[key] !== undefined) Object.assign(item, { [key]: params[key] });
+        }
+        item.lastModified = Date.now();
+        return item;
+      },
+      'item/moveToTrash': (params) => {
+        for (const id of toStringArray(params.itemIds)) {
+          const item = this.getItem(id);
+          item.isDeleted = true;
+          item.lastModified = Date.now();
+        }
+      },
+      'item/refreshThumbnail': (params) => {
+        this.getItem(params.id);
+      },
+      'item/refreshPalette': (params) => {
+        this.getItem(params.id);
+      },
+      'item/addFromURL': (params) => {
+        this.addItem(params, String(params.url));
+      },
+      'item/addFromPath': (params) => {
+        this.addItem(params, String(params.path));
+      },
+      'item/addBookmark': (params) => {
+        this.addItem({ ...params, ext: 'url' }, '');
+      },
+      'item/addFromURLs': (params) => {
+        for (const item of toRecordArray(params.items)) {
+          this.addItem({ ...item, folderId: params.folderId }, String(item.url));
+        }
+      },
+      'item/addFromPaths': (params) => {
+        for (const item of toRecordArray(params.items)) {
+          this.addItem({ ...item, folderId: params.folderId }, String(item.path));
+        }
+      },
+      'item/listSelected': () => this.state.selection.map((id) => this.getItem(id)),
+      'item/select': (params) => {
+        const ids = toStringArray(params.itemIds);
+        for (const id of ids) this.getItem(id);
+        this.state.selection = ids;
+      },
+
+      'folder/list': () => this.state.folders,
+      'folder/listRecent': () =>
+        this.state.recentFolders.map((id) => findFolder(this.state.folders, id)).filter(Boolean),
+      'folder/create': (params) => {
+        const folder: EagleWebApiFolder = {
+          id: BareItems.generateId(),
+          name: String(params.folderName ?? 'New Folder'),
+          description: '',
+          children: [],
+          modificationTime: Date.now(),
+          tags: [],
+        };
+        const parent = params.parent ? this.getFolder(params.parent) : undefined;
+        (parent ? parent.children : this.state.folders).push(folder);
+        this.touchFolder(folder.id);
+        return folder;
+      },
+      'folder/rename': (params) => {
+        const folder = this.getFolder(params.folderId);
+        folder.name = String(params.newName);
+        this.touchFolder(folder.id);
+        return folder;
+      },
+      'folder/update': (params) => {
+        const folder = this.getFolder(params.folderId);
+        if (params.newName !== undefined) folder.name = String(params.newName);
+        if (params.newDescription !== undefined) folder.description = String(params.newDescription);
+        if (params.newColor !== undefined) folder.iconColor = String(params.newColor);
+        this.touchFolder(folder.id);
+        return folder;
+      },
+
+      'library/info': () => this.libraryInfo(),
+      'library/history': () => this.state.history,
+      'library/icon': () => path.join(this.state.libraryPath, 'icon.png'),
+      'library/switch': async (params) => {
+        const libraryPath = String(params.libraryPath);
+        const source = this.libraries[libraryPath];
+        if (!source) throw new MockEagleHttpError(404, `Library does not exist: ${libraryPath}`);
+        const history = [
+          libraryPath,
+          ...this.state.history.filter((other) => other !== libraryPath),
+        ];
+        Object.assign(this.state, await loadState(source), { libraryPath, history });
+      },
+
+      'tag/list': (params) => {
+        const name = typeof params.name === 'string' ? params.name.toLowerCase() : undefined;
+        return this.listTagNames()
+          .filter((tag) => !name || tag.toLowerCase().includes(name))
+          .map((tag) => this.toTag(tag));
+      },
+      'tag/listRecent': () => this.state.recentTags.map((tag) => this.toTag(tag)),
+      'tag/listStarred': () => this.state.starredTags.map((tag) => this.toTag(tag)),
+      'tag/merge': (params): EagleWebApiTagMergeResult => {
+        const source = String(params.source);
+        const target = String(params.target);
+        const rename = (tags: string[]) => [
+          ...new Set(tags.map((tag) => (tag === source ? target : tag))),
+        ];
+        let affectedItems = 0;
+        for (const item of this.state.items.values()) {
+          if (!item.tags.includes(source)) continue;
+          item.tags = rename(item.tags);
+          item.lastModified = Date.now();
+          affectedItems++;
+        }
+        this.state.recentTags = rename(this.state.recentTags);
+        this.state.starredTags = rename(this.state.starredTags);
+        for (const group of this.state.tagsGroups) group.tags = rename(group.tags);
+        return { affectedItems, sourceRemoved: true };
+      },
+
+      'tagGroup/list': () => this.state.tagsGroups,
+      'tagGroup/create': (params) => {
+        const group: EagleWebApiTagGroup = {
+          id: BareItems.generateId(),
+          name: String(params.name),
+          tags: toStringArray(params.tags),
+        };
+        if (params.color !== undefined) group.color = String(params.color);
+        if (params.description !== undefined) group.description = String(params.description);
+        this.state.tagsGroups.push(group);
+        return group;
+      },
+      'tagGroup/update': (params) => {
+        const group = this.getTagGroup(params.id);
+        if (params.name !== undefined) group.name = String(params.name);
+        if (params.color !== undefined) group.color = String(params.color);
+        if (params.tags !== undefined) group.tags = toStringArray(params.tags);
+        if (params.description !== undefined) group.description = String(params.description);
+        return group;
+      },
+      'tagGroup/remove': (params) => {
+        const group = this.getTagGroup(params.id);
+        this.state.tagsGroups = this.state.tagsGroups.filter((other) => other !== group);
+      },
+      'tagGroup/addTags': (params) => {
+        const group = this.getTagGroup(params.id);
+        const tags = toStringArray(params.tags);
+        if (params.removeFromSource === true) {
+          for (const other of this.state.tagsGroups) {
+            if (other !== group) other.tags = other.tags.filter((tag) => !tags.includes(tag));
+          }
+        }
+        group.tags = [...new Set([...group.tags, ...tags])];
+        return group;
+      },
+      'tagGroup/removeTags': (params) => {
+        const group = this.getTagGroup(params.id);
+        const tags = toStringArray(params.tags);
+        group.tags = group.tags.filter((tag) => !tags.includes(tag));
+        return group;
+      },
+    };
+  }
+
+  private applicationInfo(): EagleWebApiApplicationInfo {
+    return {
+      version: this.version,
+      prereleaseVersion: null,
+      buildVersion: '0',
+      execPath: '/mock/Eagle',
+      platform: process.platform,
+      preferences: { developer: { apiToken: this.token } },
+    };
+  }
+
+  private libraryInfo(): EagleWebApiLibraryInfo {
+    return {
+      folders: this.state.folders,
+      smartFolders: this.state.smartFolders,
+      quickAccess: this.state.quickAccess,
+      tagsGroups: this.state.tagsGroups,
+      modificationTime: Date.now(),
+      applicationVersion: this.version,
+      library: {
+        path: this.state.libraryPath,
+        name: path.basename(this.state.libraryPath, '.library'),
+      },
+    };
+  }
+
+  /**
+   * Mirrors Eagle's `item/list`: `offset` is a page index, `tags`/`folders` accept
+   * comma-separated or repeated values and `orderBy` takes an optional `-` prefix.
+   */
+  private listItems(params: Params): EagleWebApiItem[] {
+    const limit = Number(params.limit ?? 200);
+    const page = Number(params.offset ?? 0);
+    const name = typeof params.name === 'string' ? params.name.toLowerCase() : undefined;
+    const ext = typeof params.ext === 'string' ? params.ext.toLowerCase() : undefined;
+    const tags = toStringArray(params.tags);
+    const folders = toStringArray(params.folders);
+
+    const items = [...this.state.items.values()].filter(
+      (item) =>
+        !item.isDeleted &&
+        (!name || item.name.toLowerCase().includes(name)) &&
+        (!ext || item.ext.toLowerCase() === ext) &&
+        tags.every((tag) => item.tags.includes(tag)) &&
+        (folders.length === 0 || folders.some((id) => item.folders.includes(id)))
+    );
+
+    if (typeof params.orderBy === 'string') {
+      const desc = params.orderBy.startsWith('-');
+      const sortKey = SORT_KEYS[params.orderBy.replace(/^-/, '').toUpperCase()];
+      if (sortKey) {
+        items.sort((a, b) => {
+          const [x, y] = [sortKey(a), sortKey(b)];
+          const order = x < y ? -1 : x > y ? 1 : 0;
+          return desc ? -order : order;
+        });
+      }
+    }
+
+    return items.slice(page * limit, page * limit + limit);
+  }
+
+  private getItem(id: unknown): EagleWebApiItem {
+    const item = this.state.items.get(String(id));
+    if (!item) throw new MockEagleHttpError(404, `Item does not exist: ${String(id)}`);
+    return item;
+  }
+
+  private getFolder(id: unknown): EagleWebApiFolder {
+    const folder = findFolder(this.state.folders, String(id));
+    if (!folder) throw new MockEagleHttpError(404, `Folder does not exist: ${String(id)}`);
+    return folder;
+  }
+
+  private getTagGroup(id: unknown): EagleWebApiTagGroup {
+    const group = this.state.tagsGroups.find((other) => other.id === String(id));
+    if (!group) throw new MockEagleHttpError(404, `Tag group does not exist: ${String(id)}`);
+    return group;
+  }
+
+  /** Tags used by items that are not in the trash */
+  private listTagNames(): string[] {
+    const tags = new Set<string>();
+    for (const item of this.state.items.values()) {
+      if (!item.isDeleted) item.tags.forEach((tag) => tags.add(tag));
+    }
+    return [...tags];
+  }
+
+  private toTag(name: string): EagleWebApiTag {
+    let count = 0;
+    for (const item of this.state.items.values()) {
+      if (!item.isDeleted && item.tags.includes(name)) count++;
+    }
+    const groups = this.state.tagsGroups
+      .filter((group) => group.tags.includes(name))
+      .map((group) => group.id);
+    return { name, count, groups };
+  }
+
+  private touchFolder(id: string): void {
+    this.state.recentFolders = [id, ...this.state.recentFolders.filter((other) => other !== id)];
+  }
+
+  private addItem(params: Params, source: string): EagleWebApiItem {
+    const now = Date.now();
+    const ext = typeof params.ext === 'string' ? params.ext : path.extname(source).slice(1);
+    const folderId = typeof params.folderId === 'string' ? params.folderId : undefined;
+    if (folderId) this.getFolder(folderId);
+
+    const item: EagleWebApiItem = {
+      id: BareItems.generateId(),
+      name: String(params.name ?? path.basename(source, path.extname(source))),
+      ext: ext || 'jpg',
+      width: 0,
+      height: 0,
+      size: 0,
+      url: String(params.website ?? params.url ?? ''),
+      isDeleted: false,
+      annotation: String(params.annotation ?? ''),
+      tags: toStringArray(params.tags),
+      folders: folderId ? [folderId] : [],
+      palettes: [],
+      modificationTime: typeof params.modificationTime === 'number' ? params.modificationTime : now,
+      lastModified: now,
+    };
+    if (typeof params.star === 'number') item.star = params.star;
+    this.state.items.set(item.id, item);
+    return item;
+  }
+}
+
+const SORT_KEYS: Record<string, ((item: EagleWebApiItem) => number | string) | undefined> = {
+  CREATEDATE: (item) => item.modificationTime,
+  FILESIZE: (item) => item.size,
+  NAME: (item) => item.name.toLowerCase(),
+  RESOLUTION: (item) => item.width * item.height,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function loadState(source: MockEagleSource): Promise<MockEagleState> {
+  if (!isBareLibrary(source)) {
+    const libraryPath = source.libraryPath ?? '/mock/Mock.library';
+    return {
+      libraryPath,
+      items: new Map((source.items ?? []).map((item) => [item.id, structuredClone(item)])),
+      folders: structuredClone(source.folders ?? []),
+      smartFolders: structuredClone(source.smartFolders ?? []),
+      quickAccess: structuredClone(source.quickAccess ?? []),
+      tagsGroups: structuredClone(source.tagsGroups ?? []),
+      recentFolders: [],
+      recentTags: [...(source.recentTags ?? [])],
+      starredTags: [...(source.starredTags ?? [])],
+      selection: [...(source.selection ?? [])],
+      history: [libraryPath],
+    };
+  }
+
+  const meta = await source.readLibraryMetadata();
+  const tags = await source.core
+    .readTagsIndex()
+    .catch(() => ({ historyTags: [], starredTags: [] }));
+  const items = new Map<string, EagleWebApiItem>();
+  for await (const item of source.items.iterateItems()) {
+    items.set(item.id, toApiItem(item));
+  }
+  return {
+    libraryPath: source.core.rootPath,
+    items,
+    folders: meta.folders.map(toApiFolder),
+    smartFolders: meta.smartFolders,
+    quickAccess: meta.quickAccess,
+    tagsGroups: meta.tagsGroups,
+    recentFolders: [],
+    recentTags: tags.historyTags,
+    starredTags: tags.starredTags,
+    selection: [],
+    history: [source.core.rootPath],
+  };
+}
+
+function isBareLibrary(source: MockEagleSource): source is BareLibrary {
+  return 'core' in source && 'items' in source && !Array.isArray(source.items);
+}
+
+function toApiItem(meta: ItemMetadata): EagleWebApiItem {
+  return {
+    ...meta,
+    width: typeof meta.width === 'number' ? meta.width : 0,
+    height: typeof meta.height === 'number' ? meta.height : 0,
+    palettes: Array.isArray(meta.palettes) ? (meta.palettes as EagleWebApiItem['palettes']) : [],
+  };
+}
+
+function toApiFolder(folder: LibraryFolder): EagleWebApiFolder {
+  return { ...folder, children: folder.children.map(toApiFolder) };
+}
+
+function findFolder(folders: EagleWebApiFolder[], id: string): EagleWebApiFolder | undefined {
+  for (const folder of folders) {
+    if (folder.id === id) return folder;
+    const found = findFolder(folder.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function parseQuery(searchParams: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    query[key] = values.length === 1 ? (values[0] as string) : values;
+  }
+  return query;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new MockEagleHttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function isRecord(value: unknown): value is Params {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return value.split(',').filter(Boolean);
+  return [];
+}
+
+function toRecordArray(value: unknown): Params[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
@@ -4,7 +4,10 @@ import { BareItems } from './items';
 import { BareQuickAccess } from './quick-access';
 import { BareSmartFolders } from './smart-folders';
 import { BareTagGroups } from './tags';
-import type { LibraryMetadata } from './types';
+import { BareTransaction } from './transaction';
+import type { BareLibraryOptions, LibraryMetadata } from './types';
+import { validateLibrary } from './validate';
+import type { ValidateLibraryOptions } from './validate';
 
 export class BareLibrary {
   readonly core: BareLibraryCore;
@@ -14,8 +17,8 @@ export class BareLibrary {
   readonly tagGroups: BareTagGroups;
   readonly quickAccess: BareQuickAccess;
 
-  constructor(rootPath: string) {
-    this.core = new BareLibraryCore(rootPath);
+  constructor(rootPath: string, options: BareLibraryOptions = {}) {
+    this.core = new BareLibraryCore(rootPath, options);
     this.items = new BareItems(this.core);
     this.folders = new BareFolders(this.core);
     this.smartFolders = new BareSmartFolders(this.core);
@@ -30,4 +33,50 @@ export class BareLibrary {
   async writeLibraryMetadata(metadata: LibraryMetadata) {
     await this.core.writeLibraryMetadata(metadata);
   }
+
+  async restoreBackups() {
+    return this.core.restoreBackups();
+  }
+
+  /**
+   * Checks every library JSON file against the expected shapes.
+   */
+  async validate(options: Omit<ValidateLibraryOptions, 'repair'> = {}) {
+    return validateLibrary(this.core, options);
+  }
+
+  /**
+   * Like `validate()`, but fills missing or mistyped fields with defaults
+   * and writes the fixed files back.
+   */
+  async repair(options: Omit<ValidateLibraryOptions, 'repair'> = {}) {
+    return validateLibrary(this.core, { ...options, repair: true });
+  }
+
+  /**
+   * Runs `fn` with sub-APIs that stage changes in memory, then writes each
+   * touched file once. Nothing is written if `fn` throws.
+   * Holds the library lock throughout: non-transactional mutations on this
+   * library from inside `fn` throw `LockReentryError`; use `tx` instead.
+   *
+   * @example
+   * ```ts
+   * await lib.transaction(async (tx) => {
+   *   for (const folder of folders) await tx.folders.add(folder);
+   * });
+   * ```
+   */
+  async transaction<T>(fn: (tx: BareTransaction) => Promise<T>): Promise<T> {
+    return this.core.withLock(async () => {
+      const tx = new BareTransaction(this.core);
+      try {
+        const result = await fn(tx);
+        await tx.core.commit();
+        return result;
+      } catch (error) {
+        tx.core.rollback();
+        throw error;
+      }
+    });
+  }
 }
@@ -0,0 +1,156 @@
+import { promises as fs, utimesSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { BareLibraryCore, writeFileAtomic } from './core';
+import { ConcurrentModificationError, LockReentryError, LockTimeoutError } from './errors';
+import { createTempLibrary, folderFixture, itemFixture, removeTempLibraries } from './test-library';
+
+afterEach(removeTempLibraries);
+
+async function readJson(filePath: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(filePath, 'utf8'));
+}
+
+describe('writeFileAtomic', () => {
+  it('replaces the file without leaving temp files behind', async () => {
+    const rootPath = await createTempLibrary();
+    const filePath = path.join(rootPath, 'tags.json');
+
+    await writeFileAtomic(filePath, '{"historyTags":["a"],"starredTags":[]}');
+
+    expect(await readJson(filePath)).toEqual({ historyTags: ['a'], starredTags: [] });
+    expect((await fs.readdir(rootPath)).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('removes the temp file and keeps the target when the rename fails', async () => {
+    const rootPath = await createTempLibrary();
+    // Renaming a file over a non-empty directory fails after the temp file was written
+    const target = path.join(rootPath, 'images');
+    await fs.writeFile(path.join(target, 'keep'), 'x');
+
+    await expect(writeFileAtomic(target, 'content')).rejects.toThrow();
+
+    expect((await fs.readdir(rootPath)).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+    expect(await fs.readdir(target)).toEqual(['keep']);
+  });
+});
+
+describe('BareLibraryCore backups', () => {
+  it('keeps no .bak copies by default', async () => {
+    const core = new BareLibraryCore(await createTempLibrary());
+
+    await core.writeTagsIndex({ historyTags: ['new'], starredTags: [] });
+
+    await expect(fs.access(core.backupPath(core.tagsPath()))).rejects.toThrow();
+  });
+
+  it('keeps the previous content as .bak when backup is enabled', async () => {
+    const core = new BareLibraryCore(await createTempLibrary({ tags: { historyTags: ['old'] } }), {
+      backup: true,
+    });
+
+    await core.writeTagsIndex({ historyTags: ['new'], starredTags: [] });
+
+    expect(await readJson(core.backupPath(core.tagsPath()))).toEqual({
+      historyTags: ['old'],
+      starredTags: [],
+    });
+  });
+
+  it('restores root files and item metadata from their .bak copies', async () => {
+    const rootPath = await createTempLibrary({ items: [itemFixture('A', { name: 'before' })] });
+    const core = new BareLibraryCore(rootPath, { backup: true });
+
+    await core.updateLibraryMetadata((meta) => ({ ...meta, applicationVersion: '9.9.9' }));
+    await core.writeJson(core.itemMetadataPath('A'), itemFixture('A', { name: 'after' }));
+    const restored = await core.restoreBackups();
+
+    expect(restored.sort()).toEqual([core.itemMetadataPath('A'), core.metadataPath()].sort());
+    expect((await core.readLibraryMetadata()).applicationVersion).toBe('4.0.0');
+    expect((await core.readItemMetadata('A')).name).toBe('before');
+  });
+
+  it('restores nothing when there are no backups', async () => {
+    const core = new BareLibraryCore(await createTempLibrary({ items: [itemFixture('A')] }));
+
+    expect(await core.restoreBackups()).toEqual([]);
+  });
+});
+
+describe('BareLibraryCore locking', () => {
+  it('serializes updates from separate instances without losing edits', async () => {
+    const rootPath = await createTempLibrary();
+    const cores = [new BareLibraryCore(rootPath), new BareLibraryCore(rootPath)];
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        (cores[i % 2] as BareLibraryCore).updateLibraryMetadata((meta) => ({
+          ...meta,
+          folders: [...meta.folders, folderFixture(`F${i}`)],
+        }))
+      )
+    );
+
+    const meta = await cores[0]?.readLibraryMetadata();
+    expect(meta?.folders.map((folder) => folder.id).sort()).toEqual(
+      Array.from({ length: 10 }, (_, i) => `F${i}`).sort()
+    );
+  });
+
+  it('throws LockReentryError instead of deadlocking on nested locked calls', async () => {
+    const core = new BareLibraryCore(await createTempLibrary());
+
+    await expect(core.withLock(() => core.updateTagsIndex((index) => index))).rejects.toThrow(
+      LockReentryError
+    );
+  });
+
+  it('throws LockTimeoutError while another process holds the lock', async () => {
+    const core = new BareLibraryCore(await createTempLibrary(), { lockTimeout: 100 });
+    await fs.writeFile(core.lockPath(), JSON.stringify({ pid: 0, token: 'x', acquiredAt: 0 }));
+
+    await expect(core.updateTagsIndex((index) => index)).rejects.toThrow(LockTimeoutError);
+  });
+
+  it('re-applies an optimistic update when the file changed underneath', async () => {
+    const core = new BareLibraryCore(await createTempLibrary(), { optimistic: true });
+    let calls = 0;
+
+    const result = await core.updateLibraryMetadata((meta) => {
+      calls++;
+      // Another writer (e.g. Eagle) saves between our read and write, once
+      if (calls === 1) externalWrite(core.metadataPath(), { ...meta, applicationVersion: '5.0.0' });
+      return { ...meta, folders: [folderFixture('F1')] };
+    });
+
+    expect(calls).toBe(2);
+    expect(result.applicationVersion).toBe('5.0.0');
+    expect((await core.readLibraryMetadata()).folders).toHaveLength(1);
+  });
+
+  it('throws ConcurrentModificationError when the file keeps changing', async () => {
+    const core = new BareLibraryCore(await createTempLibrary(), {
+      optimistic: true,
+      optimisticRetries: 2,
+    });
+
+    await expect(
+      core.updateLibraryMetadata((meta) => {
+        externalWrite(core.metadataPath(), {
+          ...meta,
+          modificationTime: meta.modificationTime + 1,
+        });
+        return meta;
+      })
+    ).rejects.toThrow(ConcurrentModificationError);
+  });
+});
+
+let externalWrites = 0;
+
+/** Synchronous write with a distinct mtime, standing in for another process */
+function externalWrite(filePath: string, value: unknown): void {
+  writeFileSync(filePath, JSON.stringify(value));
+  const mtime = new Date(Date.now() + ++externalWrites * 1000);
+  utimesSync(filePath, mtime, mtime);
+}
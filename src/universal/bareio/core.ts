@@ -1,17 +1,57 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
+import {
+  ConcurrentModificationError,
+  LockReentryError,
+  LockTimeoutError,
+  SchemaValidationError,
+} from './errors';
+import { acquireFileLock } from './lock';
+import {
+  validateItemMetadata,
+  validateLibraryMetadata,
+  validateMtimeIndex,
+  validateTagsIndex,
+} from './types';
 import type {
+  BareLibraryOptions,
+  ItemMetadata,
   LibraryMetadata,
   MtimeIndex,
+  SchemaMode,
   TagsIndex,
   UpdateMetadataFn,
+  ValidateOptions,
+  ValidationResult,
 } from './types';
 
+// Lock paths held by the current async call chain, to catch re-entry instead of deadlocking
+const heldLocks = new AsyncLocalStorage<ReadonlySet<string>>();
+
 export class BareLibraryCore {
   readonly rootPath: string;
+  readonly backup: boolean;
+  readonly lock: boolean;
+  readonly lockTimeout: number;
+  readonly lockStale: number;
+  readonly optimistic: boolean;
+  readonly optimisticRetries: number;
+  readonly schema: SchemaMode;
 
-  constructor(rootPath: string) {
+  // Serializes lock holders within this instance so they don't poll each other
+  private lockQueue: Promise<void> = Promise.resolve();
+
+  constructor(rootPath: string, options: BareLibraryOptions = {}) {
     this.rootPath = rootPath;
+    this.backup = options.backup ?? false;
+    this.lock = options.lock ?? true;
+    this.lockTimeout = options.lockTimeout ?? 10000;
+    this.lockStale = options.lockStale ?? 30000;
+    this.optimistic = options.optimistic ?? false;
+    this.optimisticRetries = options.optimisticRetries ?? 3;
+    this.schema = options.schema ?? 'trust';
   }
 
   metadataPath(): string {
@@ -38,8 +78,16 @@ export class BareLibraryCore {
     return path.join(this.itemInfoDir(id), 'metadata.json');
   }
 
+  lockPath(): string {
+    return path.join(this.rootPath, '.bareio.lock');
+  }
+
+  backupPath(filePath: string): string {
+    return `${filePath}.bak`;
+  }
+
   async readLibraryMetadata(): Promise<LibraryMetadata> {
-    return this.readJson<LibraryMetadata>(this.metadataPath());
+    return this.readChecked(this.metadataPath(), validateLibraryMetadata);
   }
 
   async writeLibraryMetadata(metadata: LibraryMetadata): Promise<void> {
@@ -47,28 +95,135 @@ export class BareLibraryCore {
   }
 
   async updateLibraryMetadata(update: UpdateMetadataFn): Promise<LibraryMetadata> {
-    const current = await this.readLibraryMetadata();
-    const next = update(structuredClone(current));
-    await this.writeLibraryMetadata(next);
-    return next;
+    return this.updateJson(
+      this.metadataPath(),
+      () => this.readLibraryMetadata(),
+      update,
+      (meta) => meta.modificationTime
+    );
   }
 
   async readTagsIndex(): Promise<TagsIndex> {
-    return this.readJson<TagsIndex>(this.tagsPath());
+    return this.readChecked(this.tagsPath(), validateTagsIndex);
   }
 
   async writeTagsIndex(index: TagsIndex): Promise<void> {
     await this.writeJson(this.tagsPath(), index);
   }
 
+  async updateTagsIndex(update: (index: TagsIndex) => TagsIndex): Promise<TagsIndex> {
+    return this.updateJson(this.tagsPath(), () => this.readTagsIndex(), update);
+  }
+
   async readMtimeIndex(): Promise<MtimeIndex> {
-    return this.readJson<MtimeIndex>(this.mtimePath());
+    return this.readChecked(this.mtimePath(), validateMtimeIndex);
   }
 
   async writeMtimeIndex(index: MtimeIndex): Promise<void> {
     await this.writeJson(this.mtimePath(), index);
   }
 
+  async updateMtimeIndex(update: (index: MtimeIndex) => MtimeIndex): Promise<MtimeIndex> {
+    return this.updateJson(this.mtimePath(), () => this.readMtimeIndex(), update);
+  }
+
+  async readItemMetadata(id: string): Promise<ItemMetadata> {
+    return this.readChecked(this.itemMetadataPath(id), validateItemMetadata);
+  }
+
+  /**
+   * Runs `fn` while holding the library lock file (no-op when `lock` is disabled).
+   * Waiting for earlier holders in this instance and for the lock file together
+   * takes at most `lockTimeout` ms.
+   * Not re-entrant: a locked call from inside `fn` on the same library throws
+   * `LockReentryError`.
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.lock) return fn();
+
+    const lockPath = this.lockPath();
+    const held = heldLocks.getStore();
+    if (held?.has(lockPath)) throw new LockReentryError(lockPath);
+
+    const startedAt = Date.now();
+    const previous = this.lockQueue;
+    let releaseQueue!: () => void;
+    this.lockQueue = new Promise((resolve) => {
+      releaseQueue = resolve;
+    });
+
+    if (!(await settlesWithin(previous, this.lockTimeout))) {
+      // Keep our place until the holder is done, so later callers stay serialized
+      void previous.then(releaseQueue);
+      throw new LockTimeoutError(lockPath, this.lockTimeout);
+    }
+
+    try {
+      const release = await acquireFileLock(lockPath, {
+        timeout: Math.max(0, this.lockTimeout - (Date.now() - startedAt)),
+        stale: this.lockStale,
+      });
+      try {
+        return await heldLocks.run(new Set(held).add(lockPath), fn);
+      } finally {
+        await release();
+      }
+    } finally {
+      releaseQueue();
+    }
+  }
+
+  /**
+   * Read-modify-write of a JSON file under the library lock.
+   * In optimistic mode the file's mtime (and `version`, if given) is compared
+   * before writing; on conflict the update is re-applied to fresh data.
+   */
+  protected async updateJson<T>(
+    filePath: string,
+    read: () => Promise<T>,
+    update: (data: T) => T,
+    version?: (data: T) => unknown
+  ): Promise<T> {
+    return this.withLock(async () => {
+      for (let attempt = 1; ; attempt++) {
+        const mtimeBefore = await this.statMtime(filePath);
+        const current = await read();
+        const next = update(structuredClone(current));
+
+        const conflict =
+          this.optimistic && (await this.hasChangedSince(filePath, mtimeBefore, current, version));
+
+        if (conflict) {
+          if (attempt > this.optimisticRetries) {
+            throw new ConcurrentModificationError(filePath, attempt);
+          }
+          continue;
+        }
+
+        await this.writeJson(filePath, next);
+        return next;
+      }
+    });
+  }
+
+  private async hasChangedSince<T>(
+    filePath: string,
+    mtimeBefore: number,
+    snapshot: T,
+    version?: (data: T) => unknown
+  ): Promise<boolean> {
+    if ((await this.statMtime(filePath)) !== mtimeBefore) return true;
+    if (!version) return false;
+    // mtime resolution can be coarse (e.g. FAT), so also compare the data's own version
+    const latest = await this.readJson<T>(filePath);
+    return version(latest) !== version(snapshot);
+  }
+
+  private async statMtime(filePath: string): Promise<number> {
+    const stats = await fs.stat(filePath);
+    return stats.mtimeMs;
+  }
+
   async listItemIds(): Promise<string[]> {
     const entries = await fs.readdir(this.imagesPath(), { withFileTypes: true });
     return entries
@@ -76,6 +231,23 @@ export class BareLibraryCore {
       .map((entry) => entry.name.replace(/\.info$/, ''));
   }
 
+  /**
+   * Reads a JSON file and applies the configured `schema` mode.
+   */
+  async readChecked<T>(
+    filePath: string,
+    validate: (value: unknown, options: ValidateOptions) => ValidationResult<T>
+  ): Promise<T> {
+    const value = await this.readJson<unknown>(filePath);
+    if (this.schema === 'trust') return value as T;
+
+    const result = validate(value, { repair: this.schema === 'repair' });
+    if (this.schema === 'validate' && !result.valid) {
+      throw new SchemaValidationError(filePath, result.issues);
+    }
+    return result.value;
+  }
+
   async readJson<T>(filePath: string): Promise<T> {
     const content = await fs.readFile(filePath, 'utf8');
     return JSON.parse(content) as T;
@@ -83,6 +255,113 @@ export class BareLibraryCore {
 
   async writeJson(filePath: string, data: unknown): Promise<void> {
     const content = JSON.stringify(data, null, 2);
-    await fs.writeFile(filePath, content, 'utf8');
+    await this.writeText(filePath, content);
+  }
+
+  /**
+   * Writes a file via temp file + fsync + rename so a crash never leaves it truncated.
+   * When `backup` is enabled the previous content is kept as `<file>.bak`.
+   */
+  async writeText(filePath: string, content: string): Promise<void> {
+    if (this.backup) {
+      await this.copyToBackup(filePath);
+    }
+    await writeFileAtomic(filePath, content);
+  }
+
+  async ensureDir(dirPath: string): Promise<void> {
+    await fs.mkdir(dirPath, { recursive: true });
+  }
+
+  async copyFile(sourcePath: string, destPath: string): Promise<void> {
+    await fs.copyFile(sourcePath, destPath);
+  }
+
+  async removeDir(dirPath: string): Promise<void> {
+    await fs.rm(dirPath, { recursive: true, force: true });
+  }
+
+  /**
+   * Restores a file from its `.bak` copy. Returns false if no backup exists.
+   */
+  async restoreBackup(filePath: string): Promise<boolean> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.backupPath(filePath), 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+    await writeFileAtomic(filePath, content);
+    return true;
   }
+
+  /**
+   * Restores every library file that has a `.bak` copy: `metadata.json`, `tags.json`,
+   * `mtime.json` and each item's `metadata.json`. Returns the paths that were restored.
+   */
+  async restoreBackups(): Promise<string[]> {
+    const itemIds = await this.listItemIds().catch((error: unknown) => {
+      if (isNotFound(error)) return [];
+      throw error;
+    });
+    const filePaths = [
+      this.metadataPath(),
+      this.tagsPath(),
+      this.mtimePath(),
+      ...itemIds.map((id) => this.itemMetadataPath(id)),
+    ];
+
+    const restored: string[] = [];
+    for (const filePath of filePaths) {
+      if (await this.restoreBackup(filePath)) restored.push(filePath);
+    }
+    return restored;
+  }
+
+  private async copyToBackup(filePath: string): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) return;
+      throw error;
+    }
+    await writeFileAtomic(this.backupPath(filePath), content);
+  }
+}
+
+/** Writes via temp file + fsync + rename, without the `.bak` handling of `writeText()` */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/** Resolves true once `promise` settles, or false after `ms` milliseconds */
+async function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<false>((resolve) => {
+    timerId = setTimeout(() => resolve(false), ms);
+  });
+  try {
+    return await Promise.race([promise.then(() => true), timeout]);
+  } finally {
+    clearTimeout(timerId);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
 }
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { diffLibraryMetadata } from './diff';
+import { folderFixture } from './test-library';
+import type { LibraryMetadata } from './types';
+
+function metadata(patch: Partial<LibraryMetadata> = {}): LibraryMetadata {
+  return {
+    folders: [],
+    smartFolders: [],
+    quickAccess: [],
+    tagsGroups: [],
+    modificationTime: 1,
+    applicationVersion: '4.0.0',
+    ...patch,
+  };
+}
+
+describe('diffLibraryMetadata', () => {
+  it('returns no changes for equal snapshots, ignoring modificationTime', () => {
+    const previous = metadata({ folders: [folderFixture('F1')] });
+    const current = metadata({
+      folders: [folderFixture('F1', { modificationTime: 99 })],
+      modificationTime: 99,
+    });
+
+    expect(diffLibraryMetadata(previous, current)).toEqual([]);
+  });
+
+  it('reports added and removed folders with their parent', () => {
+    const previous = metadata({
+      folders: [folderFixture('F1', { children: [folderFixture('OLD')] })],
+    });
+    const current = metadata({
+      folders: [folderFixture('F1', { children: [folderFixture('NEW')] }), folderFixture('TOP')],
+    });
+
+    const changes = diffLibraryMetadata(previous, current);
+
+    expect(changes).toMatchObject([
+      { type: 'added', id: 'NEW', parentId: 'F1' },
+      { type: 'added', id: 'TOP', parentId: null },
+      { type: 'removed', id: 'OLD', parentId: 'F1' },
+    ]);
+  });
+
+  it('reports a folder that was renamed, moved and edited as separate changes', () => {
+    const previous = metadata({
+      folders: [folderFixture('A', { children: [folderFixture('F1', { name: 'Old' })] })],
+    });
+    const current = metadata({
+      folders: [
+        folderFixture('A'),
+        folderFixture('F1', { name: 'New', description: 'Moved up', tags: ['x'] }),
+      ],
+    });
+
+    const changes = diffLibraryMetadata(previous, current);
+
+    expect(changes).toHaveLength(3);
+    expect(changes).toContainEqual(
+      expect.objectContaining({ type: 'renamed', id: 'F1', previousName: 'Old', name: 'New' })
+    );
+    expect(changes).toContainEqual(
+      expect.objectContaining({ type: 'moved', id: 'F1', previousParentId: 'A', parentId: null })
+    );
+    expect(changes).toContainEqual(
+      expect.objectContaining({ type: 'updated', id: 'F1', fields: ['description', 'tags'] })
+    );
+    // A lost a child, which is covered by F1's moved change
+    expect(changes.filter((change) => change.id === 'A')).toEqual([]);
+  });
+
+  it('diffs smart folders, tag groups and quick access by kind', () => {
+    const previous = metadata({
+      smartFolders: [{ id: 'S1', name: 'Smart', conditions: [] }],
+      tagsGroups: [{ id: 'G1', name: 'Colours', tags: ['red'] }],
+      quickAccess: [{ type: 'folder', id: 'F1' }],
+    });
+    const current = metadata({
+      smartFolders: [{ id: 'S1', name: 'Smarter', conditions: [] }],
+      tagsGroups: [{ id: 'G1', name: 'Colours', tags: ['red', 'blue'], color: 'red' }],
+      quickAccess: [],
+    });
+
+    const changes = diffLibraryMetadata(previous, current);
+
+    expect(changes.map(({ kind, type, id }) => `${kind}:${type}:${id}`)).toEqual([
+      'smartFolder:renamed:S1',
+      'tagGroup:updated:G1',
+      'quickAccess:removed:F1',
+    ]);
+    const update = changes[1];
+    expect(update?.type === 'updated' && update.fields).toEqual(['tags', 'color']);
+  });
+
+  it('does not modify either snapshot', () => {
+    const previous = metadata({ folders: [folderFixture('F1')] });
+    const current = metadata({ folders: [folderFixture('F1', { name: 'Renamed' })] });
+    const before = structuredClone([previous, current]);
+
+    diffLibraryMetadata(previous, current);
+
+    expect([previous, current]).toEqual(before);
+  });
+});
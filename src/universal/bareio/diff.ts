@@ -0,0 +1,199 @@
+import type {
+  LibraryFolder,
+  LibraryMetadata,
+  QuickAccessEntry,
+  SmartFolder,
+  TagGroup,
+} from './types';
+
+/** Node type of each `metadata.json` collection, keyed by change `kind` */
+export interface MetadataNodeTypes {
+  folder: LibraryFolder;
+  smartFolder: SmartFolder;
+  tagGroup: TagGroup;
+  quickAccess: QuickAccessEntry;
+}
+
+export type MetadataNodeKind = keyof MetadataNodeTypes;
+
+interface MetadataChangeBase<K extends MetadataNodeKind> {
+  kind: K;
+  id: string;
+  /** The node after the change (before it, for `removed`) */
+  node: MetadataNodeTypes[K];
+}
+
+export interface MetadataAddedChange<K extends MetadataNodeKind> extends MetadataChangeBase<K> {
+  type: 'added';
+  /** Parent folder ID, null at the top level */
+  parentId: string | null;
+}
+
+export interface MetadataRemovedChange<K extends MetadataNodeKind> extends MetadataChangeBase<K> {
+  type: 'removed';
+  parentId: string | null;
+}
+
+export interface MetadataRenamedChange<K extends MetadataNodeKind> extends MetadataChangeBase<K> {
+  type: 'renamed';
+  previousName: string;
+  name: string;
+}
+
+/** Parent changed. Only emitted for `folder` and `smartFolder` */
+export interface MetadataMovedChange<K extends MetadataNodeKind> extends MetadataChangeBase<K> {
+  type: 'moved';
+  previousParentId: string | null;
+  parentId: string | null;
+}
+
+/** Any other property changed (description, tags, conditions, color, ...) */
+export interface MetadataUpdatedChange<K extends MetadataNodeKind> extends MetadataChangeBase<K> {
+  type: 'updated';
+  previous: MetadataNodeTypes[K];
+  /** Names of the changed properties */
+  fields: string[];
+}
+
+/**
+ * A single structural change between two `metadata.json` snapshots.
+ * Narrow on `kind` and `type`:
+ *
+ * @example
+ * if (change.kind === 'folder' && change.type === 'renamed') {
+ *   console.log(change.previousName, '->', change.name);
+ * }
+ */
+export type MetadataChange<K extends MetadataNodeKind = MetadataNodeKind> =
+  K extends MetadataNodeKind
+    ?
+        | MetadataAddedChange<K>
+        | MetadataRemovedChange<K>
+        | MetadataRenamedChange<K>
+        | MetadataMovedChange<K>
+        | MetadataUpdatedChange<K>
+    : never;
+
+export type FolderChange = MetadataChange<'folder'>;
+export type SmartFolderChange = MetadataChange<'smartFolder'>;
+export type TagGroupChange = MetadataChange<'tagGroup'>;
+export type QuickAccessChange = MetadataChange<'quickAccess'>;
+
+interface DiffNode {
+  id: string;
+  children?: DiffNode[] | undefined;
+}
+
+interface FlatNode<T> {
+  node: T;
+  parentId: string | null;
+}
+
+// Covered by their own change types, or bumped on every edit
+const IGNORED_FIELDS = new Set(['id', 'name', 'children', 'modificationTime']);
+
+/**
+ * Compares two library metadata snapshots and lists what changed in the folder tree,
+ * smart folders, tag groups and quick access. Nodes are matched by ID, so a folder
+ * that was renamed and moved yields both a `renamed` and a `moved` change.
+ * Pure: neither snapshot is modified.
+ */
+export function diffLibraryMetadata(
+  previous: LibraryMetadata,
+  current: LibraryMetadata
+): MetadataChange[] {
+  return [
+    ...diffNodes('folder', previous.folders, current.folders),
+    ...diffNodes('smartFolder', previous.smartFolders, current.smartFolders),
+    ...diffNodes('tagGroup', previous.tagsGroups, current.tagsGroups),
+    ...diffNodes('quickAccess', previous.quickAccess, current.quickAccess),
+  ];
+}
+
+function diffNodes<K extends MetadataNodeKind>(
+  kind: K,
+  previous: MetadataNodeTypes[K][] | undefined,
+  current: MetadataNodeTypes[K][] | undefined
+): MetadataChange<K>[] {
+  const before = flatten(previous ?? []);
+  const after = flatten(current ?? []);
+  const changes: MetadataChangeBase<K>[] = [];
+
+  for (const [id, { node, parentId }] of after) {
+    const old = before.get(id);
+    if (!old) {
+      changes.push({ kind, id, node, type: 'added', parentId } as MetadataAddedChange<K>);
+      continue;
+    }
+
+    const previousName = nameOf(old.node);
+    const name = nameOf(node);
+    if (previousName !== undefined && name !== undefined && previousName !== name) {
+      changes.push({
+        kind,
+        id,
+        node,
+        type: 'renamed',
+        previousName,
+        name,
+      } as MetadataRenamedChange<K>);
+    }
+    if (old.parentId !== parentId) {
+      changes.push({
+        kind,
+        id,
+        node,
+        type: 'moved',
+        previousParentId: old.parentId,
+        parentId,
+      } as MetadataMovedChange<K>);
+    }
+    const fields = changedFields(old.node, node);
+    if (fields.length > 0) {
+      changes.push({
+        kind,
+        id,
+        node,
+        type: 'updated',
+        previous: old.node,
+        fields,
+      } as MetadataUpdatedChange<K>);
+    }
+  }
+
+  for (const [id, { node, parentId }] of before) {
+    if (!after.has(id)) {
+      changes.push({ kind, id, node, type: 'removed', parentId } as MetadataRemovedChange<K>);
+    }
+  }
+
+  return changes as MetadataChange<K>[];
+}
+
+function flatten<T>(
+  nodes: T[],
+  parentId: string | null = null,
+  out = new Map<string, FlatNode<T>>()
+): Map<string, FlatNode<T>> {
+  for (const node of nodes) {
+    const { id, children } = node as DiffNode;
+    out.set(id, { node, parentId });
+    if (Array.isArray(children)) flatten(children as T[], id, out);
+  }
+  return out;
+}
+
+function nameOf(node: unknown): string | undefined {
+  const name = (node as { name?: unknown }).name;
+  return typeof name === 'string' ? name : undefined;
+}
+
+function changedFields(previous: object, current: object): string[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  return [...keys].filter(
+    (key) =>
+      !IGNORED_FIELDS.has(key) &&
+      JSON.stringify((previous as Record<string, unknown>)[key]) !==
+        JSON.stringify((current as Record<string, unknown>)[key])
+  );
+}
@@ -0,0 +1,66 @@
+import type { ValidationIssue } from './types';
+
+/**
+ * Thrown when a file changed on disk between reading and writing it back
+ * and the optimistic retries were exhausted.
+ */
+export class ConcurrentModificationError extends Error {
+  readonly filePath: string;
+  readonly attempts: number;
+
+  constructor(filePath: string, attempts: number) {
+    super(`File was modified concurrently: ${filePath} (after ${attempts} attempts)`);
+    this.name = 'ConcurrentModificationError';
+    this.filePath = filePath;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Thrown when a library lock file could not be acquired in time.
+ */
+export class LockTimeoutError extends Error {
+  readonly lockPath: string;
+  readonly timeout: number;
+
+  constructor(lockPath: string, timeout: number) {
+    super(`Timed out after ${timeout}ms waiting for lock: ${lockPath}`);
+    this.name = 'LockTimeoutError';
+    this.lockPath = lockPath;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when a locked operation starts inside another one on the same library,
+ * e.g. `lib.folders.add()` inside `lib.transaction()`, which would wait for itself forever.
+ */
+export class LockReentryError extends Error {
+  readonly lockPath: string;
+
+  constructor(lockPath: string) {
+    super(
+      `Library lock is already held by the calling operation: ${lockPath} ` +
+        '(inside transaction(), use the tx sub-APIs instead)'
+    );
+    this.name = 'LockReentryError';
+    this.lockPath = lockPath;
+  }
+}
+
+/**
+ * Thrown by reads in `validate` schema mode when a file has an unexpected shape.
+ */
+export class SchemaValidationError extends Error {
+  readonly filePath: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(filePath: string, issues: ValidationIssue[]) {
+    const first = issues[0];
+    const detail = first ? `${first.path || '<root>'}: ${first.message}` : 'unknown issue';
+    super(`Invalid ${filePath} (${issues.length} issues, first: ${detail})`);
+    this.name = 'SchemaValidationError';
+    this.filePath = filePath;
+    this.issues = issues;
+  }
+}
@@ -1,19 +1,67 @@
 import { BareLibrary } from './bare-library';
 import { BareLibraryCore } from './core';
 import { BareFolders } from './folders';
+import { BareItemIndex } from './item-index';
 import { BareItem, BareItems } from './items';
 import { BareQuickAccess } from './quick-access';
 import { BareSmartFolders } from './smart-folders';
 import { BareTagGroups } from './tags';
+import { BareTransaction, BareTransactionCore } from './transaction';
 
 export { BareLibrary } from './bare-library';
 export { BareLibraryCore } from './core';
-export { BareItems, BareItem } from './items';
+export { BareItems, BareItem, toFilterableItem } from './items';
 export { BareFolders } from './folders';
 export { BareSmartFolders } from './smart-folders';
 export { BareTagGroups } from './tags';
 export { BareQuickAccess } from './quick-access';
+export { BareTransaction, BareTransactionCore } from './transaction';
+export {
+  ConcurrentModificationError,
+  LockReentryError,
+  LockTimeoutError,
+  SchemaValidationError,
+} from './errors';
+export { acquireFileLock } from './lock';
+export type { FileLockOptions, ReleaseLock } from './lock';
+export {
+  validateLibraryMetadata,
+  validateTagsIndex,
+  validateMtimeIndex,
+  validateItemMetadata,
+} from './types';
+export { validateLibrary } from './validate';
+export { checkLibraryIntegrity } from './integrity';
+export { diffLibraryMetadata } from './diff';
+export type {
+  FolderChange,
+  MetadataAddedChange,
+  MetadataChange,
+  MetadataMovedChange,
+  MetadataNodeKind,
+  MetadataNodeTypes,
+  MetadataRemovedChange,
+  MetadataRenamedChange,
+  MetadataUpdatedChange,
+  QuickAccessChange,
+  SmartFolderChange,
+  TagGroupChange,
+} from './diff';
+export { BareItemIndex } from './item-index';
+export type { ItemIndexEntry, ItemIndexOptions, ItemIndexRefreshResult } from './item-index';
+export type {
+  IntegrityCheckOptions,
+  IntegrityIssue,
+  IntegrityIssueKind,
+  IntegrityReport,
+} from './integrity';
+export type {
+  LibraryValidationIssue,
+  LibraryValidationReport,
+  ValidateLibraryOptions,
+} from './validate';
 export type {
+  BareLibraryOptions,
   ItemMetadata,
   LibraryFolder,
   LibraryMetadata,
@@ -25,7 +73,14 @@ export type {
   MtimeIndex,
   TagsIndex,
   WriteItemOptions,
+  CreateItemOptions,
+  IterateItemsOptions,
+  RemoveItemOptions,
   UpdateMetadataFn,
+  SchemaMode,
+  ValidationIssue,
+  ValidationResult,
+  ValidateOptions,
 } from './types';
 
 export const bareio = {
@@ -33,8 +88,11 @@ export const bareio = {
   BareLibraryCore,
   BareItems,
   BareItem,
+  BareItemIndex,
   BareFolders,
   BareSmartFolders,
   BareTagGroups,
   BareQuickAccess,
+  BareTransaction,
+  BareTransactionCore,
 };
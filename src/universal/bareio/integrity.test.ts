@@ -0,0 +1,103 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { BareLibraryCore } from './core';
+import { checkLibraryIntegrity } from './integrity';
+import { createTempLibrary, folderFixture, itemFixture, removeTempLibraries } from './test-library';
+
+afterEach(removeTempLibraries);
+
+describe('checkLibraryIntegrity', () => {
+  it('reports a consistent library as ok', async () => {
+    const rootPath = await createTempLibrary({
+      metadata: { folders: [folderFixture('F1')] },
+      items: [itemFixture('A', { folders: ['F1'], tags: ['red'] })],
+      tags: { historyTags: ['red'] },
+    });
+
+    expect(await checkLibraryIntegrity(rootPath)).toEqual({
+      ok: true,
+      issues: [],
+      itemsChecked: 1,
+      foldersChecked: 1,
+      fixedCount: 0,
+    });
+  });
+
+  it('reports every kind of inconsistency', async () => {
+    const rootPath = await createTempLibrary({
+      metadata: { folders: [folderFixture('F1', { children: [folderFixture('F1')] })] },
+      items: [
+        itemFixture('A', { folders: ['GONE'], tags: ['red'] }),
+        itemFixture('B'),
+        itemFixture('C', { noThumbnail: true }),
+      ],
+      mtime: { A: 1, B: 1, GHOST: 1, all: 2 },
+    });
+    const core = new BareLibraryCore(rootPath);
+    await fs.mkdir(core.itemInfoDir('ORPHAN'));
+    await fs.rm(path.join(core.itemInfoDir('B'), 'item-B.jpg'));
+    await fs.rm(path.join(core.itemInfoDir('B'), 'item-B_thumbnail.png'));
+    await fs.rm(path.join(core.itemInfoDir('C'), 'item-C_thumbnail.png'));
+
+    const report = await checkLibraryIntegrity(rootPath);
+
+    expect(report.ok).toBe(false);
+    expect(report.itemsChecked).toBe(4);
+    expect(report.foldersChecked).toBe(2);
+    expect(
+      report.issues.map((issue) => [issue.kind, issue.itemId ?? issue.folderId ?? issue.tag])
+    ).toEqual(
+      expect.arrayContaining([
+        ['duplicate-folder-id', 'F1'],
+        ['orphaned-info-dir', 'ORPHAN'],
+        ['unknown-folder', 'A'],
+        ['missing-file', 'B'],
+        ['missing-thumbnail', 'B'],
+        ['stale-mtime-entry', 'GHOST'],
+        ['missing-mtime-entry', 'C'],
+        ['unindexed-tag', 'red'],
+      ])
+    );
+    expect(report.issues).toHaveLength(8);
+    expect(report.issues.every((issue) => !issue.fixed)).toBe(true);
+  });
+
+  it('resolves fixable issues and bumps the stamps of rewritten items', async () => {
+    const rootPath = await createTempLibrary({
+      metadata: { folders: [folderFixture('F1')] },
+      items: [
+        itemFixture('A', { folders: ['F1', 'GONE'], tags: ['red'] }),
+        itemFixture('B', { lastModified: 42 }),
+      ],
+      mtime: { A: 1, GHOST: 1 },
+    });
+    const core = new BareLibraryCore(rootPath);
+    const startedAt = Date.now();
+
+    const report = await checkLibraryIntegrity(rootPath, { fix: true });
+
+    expect(report.fixedCount).toBe(4);
+    expect(report.issues.every((issue) => issue.fixed)).toBe(true);
+
+    const itemA = await core.readItemMetadata('A');
+    expect(itemA.folders).toEqual(['F1']);
+    expect(itemA.lastModified).toBeGreaterThanOrEqual(startedAt);
+    expect(await core.readMtimeIndex()).toEqual({ A: itemA.lastModified, B: 42 });
+    expect((await core.readTagsIndex()).historyTags).toEqual(['red']);
+    expect((await checkLibraryIntegrity(rootPath)).ok).toBe(true);
+  });
+
+  it('leaves shape problems it was not asked to fix on disk', async () => {
+    const rootPath = await createTempLibrary({ items: [itemFixture('A', { folders: ['GONE'] })] });
+    const core = new BareLibraryCore(rootPath);
+    const item = { ...itemFixture('A', { folders: ['GONE'] }), annotation: 5 };
+    await fs.writeFile(core.itemMetadataPath('A'), JSON.stringify(item));
+
+    await checkLibraryIntegrity(rootPath, { fix: true });
+
+    const raw = await core.readJson<Record<string, unknown>>(core.itemMetadataPath('A'));
+    expect(raw.folders).toEqual([]);
+    expect(raw.annotation).toBe(5);
+  });
+});
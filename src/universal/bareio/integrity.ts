@@ -0,0 +1,317 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { BareLibraryCore } from './core';
+import { itemFileName } from './items';
+import type { ItemMetadata, LibraryFolder, MtimeIndex, TagsIndex } from './types';
+
+export type IntegrityIssueKind =
+  /** `.info` directory without a readable `metadata.json` (or with a mismatched id) */
+  | 'orphaned-info-dir'
+  /** Item lists a folder ID that is not in the `metadata.json` folder tree */
+  | 'unknown-folder'
+  /** `mtime.json` entry for an item that has no `.info` directory */
+  | 'stale-mtime-entry'
+  /** Item that is not listed in `mtime.json` */
+  | 'missing-mtime-entry'
+  /** Item whose main file is missing from its `.info` directory */
+  | 'missing-file'
+  /** Item whose `_thumbnail.png` is missing (skipped for `noThumbnail` items) */
+  | 'missing-thumbnail'
+  /** Folder ID used more than once in the folder tree */
+  | 'duplicate-folder-id'
+  /** Tag used by an item but missing from `tags.json` history */
+  | 'unindexed-tag';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  message: string;
+  itemId?: string;
+  folderId?: string;
+  tag?: string;
+  /** Whether fix mode knows how to resolve this issue */
+  fixable: boolean;
+  /** Whether fix mode resolved this issue */
+  fixed: boolean;
+}
+
+export interface IntegrityReport {
+  /** True when no issues were found */
+  ok: boolean;
+  issues: IntegrityIssue[];
+  itemsChecked: number;
+  foldersChecked: number;
+  fixedCount: number;
+}
+
+export interface IntegrityCheckOptions {
+  /**
+   * Resolve fixable issues while holding the library lock (default: false):
+   * drops unknown folder IDs from items and brings `mtime.json` and `tags.json`
+   * in line with the items on disk. Only the reported problems are changed;
+   * malformed shapes are left for `BareLibrary.repair()`.
+   */
+  fix?: boolean;
+  /** Item directories inspected in parallel (default: 32) */
+  concurrency?: number;
+}
+
+interface ItemScan {
+  id: string;
+  metadata?: ItemMetadata;
+  files: Set<string>;
+  error?: string;
+}
+
+/**
+ * Cross-references `images/*.info`, item folder assignments, the folder tree,
+ * `mtime.json` and `tags.json` of a library without Eagle running.
+ *
+ * @example
+ * ```ts
+ * const report = await checkLibraryIntegrity('/backups/Photos.library');
+ * if (!report.ok) console.table(report.issues);
+ * ```
+ */
+export async function checkLibraryIntegrity(
+  rootPath: string,
+  options: IntegrityCheckOptions = {}
+): Promise<IntegrityReport> {
+  // Repair shapes in memory so malformed files are reported instead of crashing the walk.
+  // Fixes re-read the raw files with readJson, so these in-memory repairs are never written.
+  const core = new BareLibraryCore(rootPath, { schema: 'repair' });
+  return options.fix ? core.withLock(() => runCheck(core, options)) : runCheck(core, options);
+}
+
+async function runCheck(
+  core: BareLibraryCore,
+  options: IntegrityCheckOptions
+): Promise<IntegrityReport> {
+  const issues: IntegrityIssue[] = [];
+  const fix = options.fix ?? false;
+
+  const meta = await core.readLibraryMetadata();
+  const folderIds = new Map<string, number>();
+  collectFolderIds(meta.folders ?? [], folderIds);
+  for (const [folderId, count] of folderIds) {
+    if (count > 1) {
+      issues.push({
+        kind: 'duplicate-folder-id',
+        message: `Folder ID ${folderId} appears ${count} times in the folder tree`,
+        folderId,
+        fixable: false,
+        fixed: false,
+      });
+    }
+  }
+
+  const scans = await scanItems(core, Math.max(1, options.concurrency ?? 32));
+  const itemIds = new Set<string>();
+  // Items rewritten by fix mode, with their new `lastModified` stamp
+  const rewritten = new Map<string, number>();
+
+  for (const scan of scans) {
+    if (!scan.metadata) {
+      issues.push({
+        kind: 'orphaned-info-dir',
+        message: `${scan.id}.info: ${scan.error ?? 'unreadable metadata.json'}`,
+        itemId: scan.id,
+        fixable: false,
+        fixed: false,
+      });
+      continue;
+    }
+    itemIds.add(scan.id);
+    const item = scan.metadata;
+
+    const mainFile = itemFileName(item.name, item.ext);
+    if (!scan.files.has(mainFile)) {
+      issues.push({
+        kind: 'missing-file',
+        message: `Item ${scan.id} is missing ${mainFile}`,
+        itemId: scan.id,
+        fixable: false,
+        fixed: false,
+      });
+    }
+
+    const thumbnail = `${item.name}_thumbnail.png`;
+    if (item.noThumbnail !== true && !scan.files.has(thumbnail)) {
+      issues.push({
+        kind: 'missing-thumbnail',
+        message: `Item ${scan.id} is missing ${thumbnail}`,
+        itemId: scan.id,
+        fixable: false,
+        fixed: false,
+      });
+    }
+
+    const unknown = (item.folders ?? []).filter((folderId) => !folderIds.has(folderId));
+    for (const folderId of unknown) {
+      issues.push({
+        kind: 'unknown-folder',
+        message: `Item ${scan.id} references missing folder ${folderId}`,
+        itemId: scan.id,
+        folderId,
+        fixable: true,
+        fixed: false,
+      });
+    }
+    if (fix && unknown.length) {
+      const raw = await core.readJson<ItemMetadata>(core.itemMetadataPath(scan.id));
+      raw.folders = raw.folders.filter((folderId) => folderIds.has(folderId));
+      // Bumped so Eagle and BareItemIndex pick up the change via mtime.json
+      raw.lastModified = Date.now();
+      await core.writeJson(core.itemMetadataPath(scan.id), raw);
+      rewritten.set(scan.id, raw.lastModified);
+      markFixed(issues, 'unknown-folder', scan.id);
+    }
+  }
+
+  await checkMtimeIndex(core, scans, itemIds, rewritten, issues, fix);
+  await checkTagsIndex(core, scans, issues, fix);
+
+  const fixedCount = issues.filter((issue) => issue.fixed).length;
+  return {
+    ok: issues.length === 0,
+    issues,
+    itemsChecked: scans.length,
+    foldersChecked: Array.from(folderIds.values()).reduce((sum, count) => sum + count, 0),
+    fixedCount,
+  };
+}
+
+async function checkMtimeIndex(
+  core: BareLibraryCore,
+  scans: ItemScan[],
+  itemIds: Set<string>,
+  rewritten: Map<string, number>,
+  issues: IntegrityIssue[],
+  fix: boolean
+): Promise<void> {
+  let index: MtimeIndex;
+  try {
+    index = await core.readJson<MtimeIndex>(core.mtimePath());
+  } catch {
+    index = {};
+  }
+
+  let changed = false;
+  for (const [id, stamp] of rewritten) {
+    index[id] = stamp;
+    changed = true;
+  }
+  for (const key of Object.keys(index)) {
+    if (key === 'all' || itemIds.has(key)) continue;
+    issues.push({
+      kind: 'stale-mtime-entry',
+      message: `mtime.json lists missing item ${key}`,
+      itemId: key,
+      fixable: true,
+      fixed: fix,
+    });
+    if (fix) {
+      Reflect.deleteProperty(index, key);
+      changed = true;
+    }
+  }
+
+  for (const scan of scans) {
+    if (!scan.metadata || index[scan.id] !== undefined) continue;
+    issues.push({
+      kind: 'missing-mtime-entry',
+      message: `Item ${scan.id} is not listed in mtime.json`,
+      itemId: scan.id,
+      fixable: true,
+      fixed: fix,
+    });
+    if (fix) {
+      index[scan.id] = scan.metadata.lastModified ?? scan.metadata.modificationTime ?? Date.now();
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    await core.writeMtimeIndex(index);
+  }
+}
+
+async function checkTagsIndex(
+  core: BareLibraryCore,
+  scans: ItemScan[],
+  issues: IntegrityIssue[],
+  fix: boolean
+): Promise<void> {
+  let index: TagsIndex;
+  try {
+    index = await core.readJson<TagsIndex>(core.tagsPath());
+  } catch {
+    index = { historyTags: [], starredTags: [] };
+  }
+
+  const history = Array.isArray(index.historyTags) ? index.historyTags : [];
+  const known = new Set(history);
+  const missing = new Set<string>();
+  for (const scan of scans) {
+    for (const tag of scan.metadata?.tags ?? []) {
+      if (!known.has(tag)) missing.add(tag);
+    }
+  }
+
+  for (const tag of missing) {
+    issues.push({
+      kind: 'unindexed-tag',
+      message: `Tag "${tag}" is used by items but missing from tags.json`,
+      tag,
+      fixable: true,
+      fixed: fix,
+    });
+  }
+
+  if (fix && missing.size) {
+    index.historyTags = [...history, ...missing];
+    await core.writeTagsIndex(index);
+  }
+}
+
+async function scanItems(core: BareLibraryCore, concurrency: number): Promise<ItemScan[]> {
+  const ids = await core.listItemIds();
+  const scans: ItemScan[] = [];
+
+  for (let i = 0; i < ids.length; i += concurrency) {
+    const batch = ids.slice(i, i + concurrency);
+    scans.push(...(await Promise.all(batch.map((id) => scanItem(core, id)))));
+  }
+  return scans;
+}
+
+async function scanItem(core: BareLibraryCore, id: string): Promise<ItemScan> {
+  const infoDir = core.itemInfoDir(id);
+  const files = new Set(await fs.readdir(infoDir).catch(() => [] as string[]));
+
+  if (!files.has(path.basename(core.itemMetadataPath(id)))) {
+    return { id, files, error: 'metadata.json not found' };
+  }
+
+  try {
+    const metadata = await core.readItemMetadata(id);
+    if (metadata.id !== id) {
+      return { id, files, error: `metadata.json belongs to item ${String(metadata.id)}` };
+    }
+    return { id, metadata, files };
+  } catch (error) {
+    return { id, files, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function collectFolderIds(folders: LibraryFolder[], ids: Map<string, number>): void {
+  for (const folder of folders) {
+    ids.set(folder.id, (ids.get(folder.id) ?? 0) + 1);
+    collectFolderIds(folder.children ?? [], ids);
+  }
+}
+
+function markFixed(issues: IntegrityIssue[], kind: IntegrityIssueKind, itemId: string): void {
+  for (const issue of issues) {
+    if (issue.kind === kind && issue.itemId === itemId) issue.fixed = true;
+  }
+}
@@ -0,0 +1,224 @@
+import path from 'node:path';
+import { filterItems } from '../filter';
+import type { FilterableItem, ItemFilter } from '../filter';
+import { writeFileAtomic } from './core';
+import { BareItems } from './items';
+import type { ItemMetadata } from './types';
+
+/**
+ * Compact per-item record kept in the index sidecar file.
+ * Holds every field an `ItemFilter` rule can test.
+ */
+export interface ItemIndexEntry {
+  id: string;
+  name: string;
+  ext: string;
+  url: string;
+  annotation: string;
+  tags: string[];
+  folders: string[];
+  star: number;
+  width: number;
+  height: number;
+  size: number;
+  isDeleted: boolean;
+  /** File birth time */
+  btime: number;
+  /** File modification time */
+  mtime: number;
+  /** Import time */
+  modificationTime: number;
+  /** Last metadata edit */
+  lastModified: number;
+}
+
+export interface ItemIndexOptions {
+  /** Sidecar file location (default: `<library>/.bareio-index.json`) */
+  cachePath?: string;
+  /** Metadata files read in parallel during refresh (default: 16) */
+  concurrency?: number;
+}
+
+export interface ItemIndexRefreshResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  /** Items listed in `mtime.json` whose metadata could not be read */
+  failed: string[];
+}
+
+interface ItemIndexFile {
+  version: number;
+  entries: ItemIndexEntry[];
+  /** `mtime.json` value each entry was built from */
+  stamps: Record<string, number>;
+}
+
+// Bumped whenever ItemIndexEntry gains fields, so older sidecars are rebuilt
+const INDEX_VERSION = 2;
+
+/**
+ * Persistent item index over `BareItems`. Uses `mtime.json` to re-read only
+ * items that changed since the last refresh, so cold starts on large libraries
+ * read one sidecar file instead of every `metadata.json`.
+ *
+ * @example
+ * ```ts
+ * const index = new BareItemIndex(lib.items);
+ * await index.open();
+ * const pngs = index.query(new ItemFilterBuilder().where('ext').is('png').build());
+ * ```
+ */
+export class BareItemIndex {
+  readonly cachePath: string;
+  private readonly concurrency: number;
+  private entries = new Map<string, ItemIndexEntry>();
+  private stamps = new Map<string, number>();
+  private dirty = false;
+
+  constructor(
+    public readonly items: BareItems,
+    options: ItemIndexOptions = {}
+  ) {
+    this.cachePath = options.cachePath ?? path.join(items.library.rootPath, '.bareio-index.json');
+    this.concurrency = options.concurrency ?? 16;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Loads the sidecar, refreshes changed items and saves if anything changed.
+   */
+  async open(): Promise<ItemIndexRefreshResult> {
+    await this.load();
+    const result = await this.refresh();
+    if (this.dirty) await this.save();
+    return result;
+  }
+
+  /**
+   * Loads the sidecar file. A missing, corrupt or outdated file yields an empty index.
+   */
+  async load(): Promise<void> {
+    this.entries.clear();
+    this.stamps.clear();
+    try {
+      const file = await this.items.library.readJson<ItemIndexFile>(this.cachePath);
+      if (file.version !== INDEX_VERSION) return;
+      for (const entry of file.entries) this.entries.set(entry.id, entry);
+      for (const [id, stamp] of Object.entries(file.stamps)) this.stamps.set(id, stamp);
+    } catch {
+      // Rebuilt by the next refresh
+    }
+    this.dirty = false;
+  }
+
+  /**
+   * Re-reads items whose `mtime.json` value differs from the indexed one and
+   * drops items no longer listed.
+   */
+  async refresh(): Promise<ItemIndexRefreshResult> {
+    const mtimeIndex = await this.items.library.readMtimeIndex();
+    const result: ItemIndexRefreshResult = { added: [], updated: [], removed: [], failed: [] };
+
+    const changed: string[] = [];
+    const listed = new Set<string>();
+    for (const [id, stamp] of Object.entries(mtimeIndex)) {
+      if (id === 'all' || typeof stamp !== 'number') continue;
+      listed.add(id);
+      if (this.stamps.get(id) !== stamp) changed.push(id);
+    }
+
+    for (const id of Array.from(this.entries.keys())) {
+      if (listed.has(id)) continue;
+      this.entries.delete(id);
+      this.stamps.delete(id);
+      result.removed.push(id);
+    }
+
+    const failed = new Set<string>();
+    const reads = this.items.iterateItems({
+      ids: changed,
+      concurrency: this.concurrency,
+      onError: (id) => failed.add(id),
+    });
+    for await (const meta of reads) {
+      (this.entries.has(meta.id) ? result.updated : result.added).push(meta.id);
+      this.entries.set(meta.id, toIndexEntry(meta));
+      this.stamps.set(meta.id, mtimeIndex[meta.id] ?? 0);
+    }
+    result.failed = Array.from(failed);
+
+    if (result.added.length || result.updated.length || result.removed.length) {
+      this.dirty = true;
+    }
+    return result;
+  }
+
+  /**
+   * Writes the index to the sidecar file.
+   */
+  async save(): Promise<void> {
+    const file: ItemIndexFile = {
+      version: INDEX_VERSION,
+      entries: Array.from(this.entries.values()),
+      stamps: Object.fromEntries(this.stamps),
+    };
+    // A cache, so no `.bak` even with `backup` on: a lost index is rebuilt from mtime.json
+    await writeFileAtomic(this.cachePath, JSON.stringify(file, null, 2));
+    this.dirty = false;
+  }
+
+  get(id: string): ItemIndexEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  all(): ItemIndexEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Returns entries matching `filter` (all entries when omitted).
+   */
+  query(filter?: ItemFilter): ItemIndexEntry[] {
+    const all = this.all();
+    if (!filter) return all;
+    return filterItems(all.map(toFilterable), filter).map((item) => item.entry);
+  }
+
+  count(filter?: ItemFilter): number {
+    return this.query(filter).length;
+  }
+}
+
+function toIndexEntry(meta: ItemMetadata): ItemIndexEntry {
+  return {
+    id: meta.id,
+    name: meta.name,
+    ext: meta.ext,
+    url: meta.url ?? '',
+    annotation: meta.annotation ?? '',
+    tags: meta.tags ?? [],
+    folders: meta.folders ?? [],
+    star: typeof meta.star === 'number' ? meta.star : 0,
+    width: typeof meta.width === 'number' ? meta.width : 0,
+    height: typeof meta.height === 'number' ? meta.height : 0,
+    size: meta.size,
+    isDeleted: meta.isDeleted ?? false,
+    btime: meta.btime,
+    mtime: meta.mtime,
+    modificationTime: meta.modificationTime,
+    lastModified: meta.lastModified,
+  };
+}
+
+function toFilterable(entry: ItemIndexEntry): FilterableItem & { entry: ItemIndexEntry } {
+  return {
+    ...entry,
+    importedAt: entry.modificationTime,
+    modifiedAt: entry.lastModified,
+    entry,
+  };
+}
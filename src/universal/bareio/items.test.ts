@@ -0,0 +1,189 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ItemFilterBuilder } from '../filter';
+import { BareLibrary } from './bare-library';
+import { createTempLibrary, itemFixture, removeTempLibraries } from './test-library';
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await removeTempLibraries();
+});
+
+async function createSource(rootPath: string, fileName: string): Promise<string> {
+  const sourcePath = path.join(path.dirname(rootPath), fileName);
+  await fs.writeFile(sourcePath, 'source');
+  return sourcePath;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of iterable) values.push(value);
+  return values;
+}
+
+describe('BareItems.create', () => {
+  it('copies the file and writes metadata and indexes', async () => {
+    const rootPath = await createTempLibrary({ tags: { historyTags: ['old'] } });
+    const lib = new BareLibrary(rootPath);
+    const sourcePath = await createSource(rootPath, 'Photo.JPG');
+
+    const item = await lib.items.create({ sourcePath, tags: ['new'], folders: ['F1'], star: 3 });
+
+    expect(item.id).toMatch(/^[0-9A-Z]{13}$/);
+    expect(item).toMatchObject({
+      name: 'Photo',
+      ext: 'jpg',
+      size: 6,
+      tags: ['new'],
+      folders: ['F1'],
+      star: 3,
+      isDeleted: false,
+      noThumbnail: true,
+    });
+    expect(await lib.core.readItemMetadata(item.id)).toEqual(item);
+    expect(await fs.readFile(path.join(lib.core.itemInfoDir(item.id), 'Photo.jpg'), 'utf8')).toBe(
+      'source'
+    );
+    expect((await lib.core.readMtimeIndex())[item.id]).toBe(item.lastModified);
+    expect((await lib.core.readTagsIndex()).historyTags).toEqual(['old', 'new']);
+  });
+
+  it('sanitizes the name and stores extensionless files without a trailing dot', async () => {
+    const rootPath = await createTempLibrary();
+    const lib = new BareLibrary(rootPath);
+    const sourcePath = await createSource(rootPath, 'README');
+
+    const item = await lib.items.create({ sourcePath, name: 'a/b:c' });
+
+    expect(item).toMatchObject({ name: 'a_b_c', ext: '' });
+    expect((await fs.readdir(lib.core.itemInfoDir(item.id))).sort()).toEqual([
+      'a_b_c',
+      'metadata.json',
+    ]);
+  });
+
+  it('renames sources that would overwrite metadata.json or its backup', async () => {
+    const rootPath = await createTempLibrary();
+    const lib = new BareLibrary(rootPath, { backup: true });
+    const metadataSource = await createSource(rootPath, 'Metadata.json');
+    const backupSource = await createSource(rootPath, 'metadata.json.bak');
+
+    const first = await lib.items.create({ sourcePath: metadataSource });
+    const second = await lib.items.create({ sourcePath: backupSource });
+
+    expect(first).toMatchObject({ name: 'Metadata_', ext: 'json' });
+    expect(second).toMatchObject({ name: 'metadata.json_', ext: 'bak' });
+    expect((await lib.core.readItemMetadata(first.id)).id).toBe(first.id);
+    expect(await fs.readdir(lib.core.itemInfoDir(first.id))).toContain('Metadata_.json');
+  });
+
+  it('refuses an explicit id that already exists', async () => {
+    const rootPath = await createTempLibrary({ items: [itemFixture('TAKEN')] });
+    const lib = new BareLibrary(rootPath);
+    const sourcePath = await createSource(rootPath, 'x.png');
+
+    await expect(lib.items.create({ sourcePath, id: 'TAKEN' })).rejects.toThrow(
+      'Item TAKEN already exists'
+    );
+    expect((await lib.core.readItemMetadata('TAKEN')).name).toBe('item-TAKEN');
+  });
+});
+
+describe('BareItems.remove', () => {
+  it('moves items to the trash by default', async () => {
+    const lib = new BareLibrary(await createTempLibrary({ items: [itemFixture('A')] }));
+
+    await lib.items.remove('A');
+
+    const item = await lib.core.readItemMetadata('A');
+    expect(item.isDeleted).toBe(true);
+    expect((await lib.core.readMtimeIndex()).A).toBe(item.lastModified);
+  });
+
+  it('deletes the directory and mtime entry when hard', async () => {
+    const lib = new BareLibrary(
+      await createTempLibrary({ items: [itemFixture('A'), itemFixture('B')] })
+    );
+
+    await lib.items.remove('A', { hard: true });
+
+    expect(await lib.core.listItemIds()).toEqual(['B']);
+    expect(await lib.core.readMtimeIndex()).toEqual({ B: 1 });
+  });
+});
+
+describe('BareItems.iterateItems', () => {
+  const ids = Array.from({ length: 20 }, (_, i) => `ITEM${String(i).padStart(2, '0')}`);
+
+  it('yields every item across batches', async () => {
+    const lib = new BareLibrary(
+      await createTempLibrary({ items: ids.map((id) => itemFixture(id)) })
+    );
+
+    const items = await collect(lib.items.iterateItems({ batchSize: 3 }));
+
+    expect(items.map((item) => item.id).sort()).toEqual(ids);
+  });
+
+  it('never reads more items at once than the concurrency limit', async () => {
+    const lib = new BareLibrary(
+      await createTempLibrary({ items: ids.map((id) => itemFixture(id)) })
+    );
+    const read = lib.core.readItemMetadata.bind(lib.core);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.spyOn(lib.core, 'readItemMetadata').mockImplementation(async (id) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      try {
+        return await read(id);
+      } finally {
+        inFlight--;
+      }
+    });
+
+    await collect(lib.items.iterateItems({ concurrency: 4 }));
+
+    expect(maxInFlight).toBe(4);
+  });
+
+  it('applies a filter while streaming', async () => {
+    const lib = new BareLibrary(
+      await createTempLibrary({
+        items: [
+          itemFixture('A', { tags: ['todo'] }),
+          itemFixture('B', { tags: ['done'] }),
+          itemFixture('C', { tags: ['todo', 'x'] }),
+        ],
+      })
+    );
+    const filter = new ItemFilterBuilder().where('tags').includesAny(['todo']).build();
+
+    const items = await collect(lib.items.iterateItems({ filter }));
+
+    expect(items.map((item) => item.id).sort()).toEqual(['A', 'C']);
+  });
+
+  it('skips unreadable items and reports them', async () => {
+    const lib = new BareLibrary(
+      await createTempLibrary({ items: [itemFixture('A'), itemFixture('B')] })
+    );
+    await fs.writeFile(lib.core.itemMetadataPath('A'), '{');
+    const onError = vi.fn();
+
+    const items = await collect(lib.items.iterateItems({ onError }));
+
+    expect(items.map((item) => item.id)).toEqual(['B']);
+    expect(onError).toHaveBeenCalledWith('A', expect.any(SyntaxError));
+  });
+
+  it('only reads the requested ids', async () => {
+    const lib = new BareLibrary(
+      await createTempLibrary({ items: ids.map((id) => itemFixture(id)) })
+    );
+
+    const items = await collect(lib.items.iterateItems({ ids: ['ITEM03', 'ITEM07'] }));
+
+    expect(items.map((item) => item.id)).toEqual(['ITEM03', 'ITEM07']);
+  });
+});
@@ -1,13 +1,22 @@
+import { randomInt } from 'node:crypto';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
-import type { ItemMetadata, WriteItemOptions } from './types';
+import { matchesFilter } from '../filter';
+import type { FilterableItem } from '../filter';
+import type {
+  CreateItemOptions,
+  ItemMetadata,
+  IterateItemsOptions,
+  RemoveItemOptions,
+  WriteItemOptions,
+} from './types';
 import { BareLibraryCore } from './core';
 
 export class BareItem {
   constructor(public readonly library: BareLibraryCore, readonly id: string) {}
 
   async read(): Promise<ItemMetadata> {
-    return this.library.readJson<ItemMetadata>(this.library.itemMetadataPath(this.id));
+    return this.library.readItemMetadata(this.id);
   }
 
   async write(data: ItemMetadata, options: WriteItemOptions = {}): Promise<void> {
@@ -41,22 +50,24 @@ export class BareItem {
     const existing = entries.find((name) => name.toLowerCase().endsWith('.url'));
     const fileName = existing ?? `${this.id}.url`;
     const content = `[InternetShortcut]\nURL=${url}\n`;
-    await fs.writeFile(path.join(this.infoDir, fileName), content, 'utf8');
+    await this.library.writeText(path.join(this.infoDir, fileName), content);
   }
 
   private async updateIndexes(data: ItemMetadata): Promise<void> {
-    const mtimeIndex = await this.library.readMtimeIndex();
     const ts = data.lastModified ?? data.modificationTime ?? Date.now();
-    mtimeIndex[this.id] = ts;
-    await this.library.writeMtimeIndex(mtimeIndex);
+    await this.library.updateMtimeIndex((mtimeIndex) => {
+      mtimeIndex[this.id] = ts;
+      return mtimeIndex;
+    });
 
     if (data.tags?.length) {
-      const tagsIndex = await this.library.readTagsIndex();
-      const set = new Set(tagsIndex.historyTags ?? []);
-      for (const tag of data.tags) set.add(tag);
-      tagsIndex.historyTags = Array.from(set);
-      tagsIndex.starredTags = tagsIndex.starredTags ?? [];
-      await this.library.writeTagsIndex(tagsIndex);
+      await this.library.updateTagsIndex((tagsIndex) => {
+        const set = new Set(tagsIndex.historyTags ?? []);
+        for (const tag of data.tags) set.add(tag);
+        tagsIndex.historyTags = Array.from(set);
+        tagsIndex.starredTags = tagsIndex.starredTags ?? [];
+        return tagsIndex;
+      });
     }
   }
 }
@@ -75,10 +86,53 @@ export class BareItems {
   async listItems(withMetadata: boolean = false): Promise<string[] | ItemMetadata[]> {
     const ids = await this.listItemIds();
     if (!withMetadata) return ids;
-    const metas = await Promise.all(ids.map((id) => this.item(id).read()));
+    const metas: ItemMetadata[] = [];
+    const rethrow = (_id: string, error: unknown) => {
+      throw error;
+    };
+    for await (const meta of this.iterateItems({ onError: rethrow })) {
+      metas.push(meta);
+    }
     return metas;
   }
 
+  /**
+   * Streams item metadata with bounded concurrency, so large libraries never
+   * open every file at once. Unreadable items are skipped and reported via
+   * `onError`; with `filter`, only matching items are yielded.
+   *
+   * @example
+   * ```ts
+   * const filter = new ItemFilterBuilder().where('tags').includesAny(['todo']).build();
+   * for await (const item of lib.items.iterateItems({ filter, concurrency: 8 })) {
+   *   console.log(item.name);
+   * }
+   * ```
+   */
+  async *iterateItems(options: IterateItemsOptions = {}): AsyncGenerator<ItemMetadata> {
+    const concurrency = Math.max(1, options.concurrency ?? 16);
+    const batchSize = Math.max(1, options.batchSize ?? 256);
+    const ids = options.ids ?? (await this.listItemIds());
+
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize);
+      const metas = await mapWithConcurrency(batch, concurrency, async (id) => {
+        try {
+          return await this.item(id).read();
+        } catch (error) {
+          options.onError?.(id, error);
+          return undefined;
+        }
+      });
+
+      for (const meta of metas) {
+        if (!meta) continue;
+        if (options.filter && !matchesFilter(toFilterableItem(meta), options.filter)) continue;
+        yield meta;
+      }
+    }
+  }
+
   async readItemMetadata(id: string): Promise<ItemMetadata> {
     const data = await this.item(id).read();
     if (data.ext === 'url' && (!data.url || data.url.length === 0)) {
@@ -87,4 +141,149 @@ export class BareItems {
     }
     return data;
   }
+
+  /**
+   * Creates an item without Eagle running: copies `sourcePath` into a new
+   * `.info` directory, writes its metadata and updates `mtime.json`/`tags.json`.
+   * Eagle generates the thumbnail on next load, so the item is flagged `noThumbnail`.
+   * Names that would clash with `metadata.json` (or its `.bak`) get a `_` suffix.
+   */
+  async create(options: CreateItemOptions): Promise<ItemMetadata> {
+    const stats = await fs.stat(options.sourcePath);
+    const sourceExt = path.extname(options.sourcePath);
+    const ext = sourceExt.slice(1).toLowerCase();
+    let name = sanitizeFileName(options.name ?? path.basename(options.sourcePath, sourceExt));
+    if (isReservedFileName(itemFileName(name, ext))) name += '_';
+
+    if (options.id !== undefined && (await this.infoDirExists(options.id))) {
+      throw new Error(`Item ${options.id} already exists`);
+    }
+    const id = options.id ?? (await this.generateUniqueId());
+    const now = Date.now();
+
+    const metadata: ItemMetadata = {
+      id,
+      name,
+      size: stats.size,
+      btime: stats.birthtimeMs,
+      mtime: stats.mtimeMs,
+      ext,
+      tags: options.tags ?? [],
+      folders: options.folders ?? [],
+      isDeleted: false,
+      url: options.url ?? '',
+      annotation: options.annotation ?? '',
+      modificationTime: now,
+      lastModified: now,
+      palettes: [],
+      noThumbnail: true,
+    };
+    if (options.star !== undefined) metadata.star = options.star;
+
+    const infoDir = this.library.itemInfoDir(id);
+    await this.library.ensureDir(infoDir);
+    await this.library.copyFile(options.sourcePath, path.join(infoDir, itemFileName(name, ext)));
+    await this.item(id).write(metadata, { syncUrlFile: false });
+    return metadata;
+  }
+
+  /**
+   * Removes an item. Moves it to trash unless `hard` is set, in which case the
+   * `.info` directory is deleted and the item dropped from `mtime.json`.
+   */
+  async remove(id: string, options: RemoveItemOptions = {}): Promise<void> {
+    if (!options.hard) {
+      await this.moveToTrash(id);
+      return;
+    }
+
+    await this.library.updateMtimeIndex((index) => {
+      Reflect.deleteProperty(index, id);
+      return index;
+    });
+    await this.library.removeDir(this.library.itemInfoDir(id));
+  }
+
+  /**
+   * Marks an item as deleted (Eagle's trash).
+   */
+  async moveToTrash(id: string): Promise<void> {
+    const item = this.item(id);
+    const data = await item.read();
+    data.isDeleted = true;
+    data.lastModified = Date.now();
+    await item.write(data, { syncUrlFile: false });
+  }
+
+  /**
+   * Generates an Eagle-style item ID: 13 uppercase base36 characters,
+   * a millisecond timestamp followed by random digits.
+   */
+  static generateId(): string {
+    const time = Date.now().toString(36);
+    const random = randomInt(36 ** 5).toString(36).padStart(5, '0');
+    return (time + random).slice(0, 13).toUpperCase();
+  }
+
+  private async generateUniqueId(): Promise<string> {
+    for (;;) {
+      const id = BareItems.generateId();
+      if (!(await this.infoDirExists(id))) return id;
+    }
+  }
+
+  private async infoDirExists(id: string): Promise<boolean> {
+    return fs
+      .access(this.library.itemInfoDir(id))
+      .then(() => true)
+      .catch(() => false);
+  }
+}
+
+/**
+ * Maps item metadata onto the shape used by `filter.ts`.
+ * Eagle stores the import time as `modificationTime` and the last edit as `lastModified`.
+ */
+export function toFilterableItem(meta: ItemMetadata): FilterableItem {
+  return {
+    ...meta,
+    star: typeof meta.star === 'number' ? meta.star : 0,
+    width: typeof meta.width === 'number' ? meta.width : 0,
+    height: typeof meta.height === 'number' ? meta.height : 0,
+    importedAt: meta.modificationTime,
+    modifiedAt: meta.lastModified,
+  };
+}
+
+async function mapWithConcurrency<T, R>(
+  inputs: T[],
+  concurrency: number,
+  fn: (input: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(inputs.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < inputs.length) {
+      const index = next++;
+      results[index] = await fn(inputs[index] as T);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, inputs.length) }, worker));
+  return results;
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'untitled';
+}
+
+/**
+ * File name of an item's main file; extensionless files are stored without a trailing dot.
+ */
+export function itemFileName(name: string, ext: string): string {
+  return ext ? `${name}.${ext}` : name;
+}
+
+function isReservedFileName(fileName: string): boolean {
+  // Compared case-insensitively for case-insensitive file systems (macOS, Windows)
+  return fileName.toLowerCase().startsWith('metadata.json');
 }
@@ -0,0 +1,86 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LockTimeoutError } from './errors';
+import { acquireFileLock } from './lock';
+import { createTempLibrary, removeTempLibraries } from './test-library';
+
+afterEach(removeTempLibraries);
+
+async function lockPathIn(): Promise<string> {
+  return path.join(await createTempLibrary(), '.bareio.lock');
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  return fs
+    .access(filePath)
+    .then(() => true)
+    .catch(() => false);
+}
+
+describe('acquireFileLock', () => {
+  it('creates the lock file and removes it on release', async () => {
+    const lockPath = await lockPathIn();
+
+    const release = await acquireFileLock(lockPath);
+    expect(await exists(lockPath)).toBe(true);
+    await release();
+
+    expect(await exists(lockPath)).toBe(false);
+  });
+
+  it('times out while another holder keeps the lock', async () => {
+    const lockPath = await lockPathIn();
+    const release = await acquireFileLock(lockPath);
+
+    await expect(acquireFileLock(lockPath, { timeout: 100, retryDelay: 10 })).rejects.toThrow(
+      LockTimeoutError
+    );
+    await release();
+  });
+
+  it('hands the lock to the next waiter once released', async () => {
+    const lockPath = await lockPathIn();
+    const release = await acquireFileLock(lockPath);
+
+    const next = acquireFileLock(lockPath, { timeout: 2000, retryDelay: 10 });
+    setTimeout(() => void release(), 50);
+
+    const releaseNext = await next;
+    await releaseNext();
+  });
+
+  it('takes over a lock abandoned by a crashed holder', async () => {
+    const lockPath = await lockPathIn();
+    await fs.writeFile(lockPath, JSON.stringify({ pid: 0, token: 'dead', acquiredAt: 0 }));
+    const past = new Date(Date.now() - 60_000);
+    await fs.utimes(lockPath, past, past);
+
+    const release = await acquireFileLock(lockPath, { timeout: 500, stale: 1000 });
+    const content = JSON.parse(await fs.readFile(lockPath, 'utf8')) as { token: string };
+    expect(content.token).not.toBe('dead');
+    await release();
+  });
+
+  it('keeps a held lock fresh so it never looks stale', async () => {
+    const lockPath = await lockPathIn();
+    const release = await acquireFileLock(lockPath, { stale: 300 });
+
+    // Outlive `stale` twice; the heartbeat touches the file every 100ms
+    await new Promise((resolve) => setTimeout(resolve, 600));
+    await expect(
+      acquireFileLock(lockPath, { timeout: 100, stale: 300, retryDelay: 10 })
+    ).rejects.toThrow(LockTimeoutError);
+    await release();
+  });
+
+  it('does not remove a lock that was taken over by someone else', async () => {
+    const lockPath = await lockPathIn();
+    const release = await acquireFileLock(lockPath);
+    await fs.writeFile(lockPath, JSON.stringify({ pid: 0, token: 'other', acquiredAt: 0 }));
+
+    await release();
+
+    expect(await exists(lockPath)).toBe(true);
+  });
+});
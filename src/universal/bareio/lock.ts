@@ -0,0 +1,135 @@
+import { randomBytes } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { LockTimeoutError } from './errors';
+
+export interface FileLockOptions {
+  /** Max time to wait for the lock in ms (default: 10000) */
+  timeout?: number;
+  /**
+   * Age in ms after which an abandoned lock file is taken over (default: 30000).
+   * A held lock is touched every `stale / 3` ms, so only crashed holders go stale.
+   */
+  stale?: number;
+  /** Delay between acquisition attempts in ms (default: 50) */
+  retryDelay?: number;
+}
+
+export type ReleaseLock = () => Promise<void>;
+
+interface LockFileContent {
+  pid: number;
+  token: string;
+  acquiredAt: number;
+}
+
+/**
+ * Acquires an exclusive lock by creating `lockPath` with the `wx` flag.
+ * Works across processes as long as every writer uses the same lock path.
+ * The lock file's mtime is refreshed until the returned release function is called.
+ */
+export async function acquireFileLock(
+  lockPath: string,
+  options: FileLockOptions = {}
+): Promise<ReleaseLock> {
+  const timeout = options.timeout ?? 10000;
+  const stale = options.stale ?? 30000;
+  const retryDelay = options.retryDelay ?? 50;
+  const token = randomBytes(8).toString('hex');
+  const startedAt = Date.now();
+
+  for (;;) {
+    if (await tryCreateLock(lockPath, token)) {
+      const heartbeat = keepFresh(lockPath, stale);
+      return () => {
+        clearInterval(heartbeat);
+        return releaseFileLock(lockPath, token);
+      };
+    }
+
+    if (await isStaleLock(lockPath, stale)) {
+      await takeOverStaleLock(lockPath, stale);
+      continue;
+    }
+
+    if (Date.now() - startedAt >= timeout) {
+      throw new LockTimeoutError(lockPath, timeout);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, retryDelay));
+  }
+}
+
+async function tryCreateLock(lockPath: string, token: string): Promise<boolean> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(lockPath, 'wx');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw error;
+  }
+
+  try {
+    const content: LockFileContent = { pid: process.pid, token, acquiredAt: Date.now() };
+    await handle.writeFile(JSON.stringify(content), 'utf8');
+  } finally {
+    await handle.close();
+  }
+  return true;
+}
+
+function keepFresh(lockPath: string, stale: number): ReturnType<typeof setInterval> {
+  const interval = Math.max(stale / 3, 10);
+  const timerId = setInterval(() => {
+    const now = new Date();
+    // A missing lock was taken over or removed by hand; release handles that
+    fs.utimes(lockPath, now, now).catch(() => undefined);
+  }, interval);
+  // Node only: don't keep the process alive for the heartbeat
+  (timerId as { unref?: () => void }).unref?.();
+  return timerId;
+}
+
+async function isStaleLock(lockPath: string, stale: number): Promise<boolean> {
+  try {
+    const stats = await fs.stat(lockPath);
+    return Date.now() - stats.mtimeMs > stale;
+  } catch {
+    // Lock vanished between attempts; retry immediately
+    return true;
+  }
+}
+
+/**
+ * Removes a stale lock without racing other waiters. The lock is moved aside with an
+ * atomic rename, so only one waiter gets it; if that turns out to be a fresh lock
+ * another waiter created in the meantime, it is put back.
+ */
+async function takeOverStaleLock(lockPath: string, stale: number): Promise<void> {
+  const asidePath = `${lockPath}.${randomBytes(4).toString('hex')}.stale`;
+  try {
+    await fs.rename(lockPath, asidePath);
+  } catch {
+    // Vanished, or another waiter moved it first
+    return;
+  }
+
+  try {
+    if (!(await isStaleLock(asidePath, stale))) {
+      // link fails with EEXIST if yet another waiter holds a new lock by now
+      await fs.link(asidePath, lockPath).catch(() => undefined);
+    }
+  } finally {
+    await fs.rm(asidePath, { force: true });
+  }
+}
+
+async function releaseFileLock(lockPath: string, token: string): Promise<void> {
+  try {
+    const content = JSON.parse(await fs.readFile(lockPath, 'utf8')) as LockFileContent;
+    // Never remove a lock that was taken over after ours went stale
+    if (content.token !== token) return;
+  } catch {
+    return;
+  }
+  await fs.rm(lockPath, { force: true });
+}
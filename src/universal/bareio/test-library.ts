@@ -0,0 +1,100 @@
+/**
+ * Throwaway on-disk libraries for the bareio tests.
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ItemMetadata, LibraryFolder, LibraryMetadata, MtimeIndex, TagsIndex } from './types';
+
+export interface TempLibraryFixture {
+  metadata?: Partial<LibraryMetadata>;
+  items?: ItemMetadata[];
+  tags?: Partial<TagsIndex>;
+  /** Default: a stamp for every item */
+  mtime?: MtimeIndex;
+}
+
+const created: string[] = [];
+
+/**
+ * Writes a library to a fresh temp directory. Each item gets its main file and thumbnail.
+ */
+export async function createTempLibrary(fixture: TempLibraryFixture = {}): Promise<string> {
+  const parent = await fs.mkdtemp(path.join(os.tmpdir(), 'bareio-'));
+  created.push(parent);
+  const rootPath = path.join(parent, 'Test.library');
+  const items = fixture.items ?? [];
+
+  await fs.mkdir(path.join(rootPath, 'images'), { recursive: true });
+  await writeJson(path.join(rootPath, 'metadata.json'), {
+    folders: [],
+    smartFolders: [],
+    quickAccess: [],
+    tagsGroups: [],
+    modificationTime: 1,
+    applicationVersion: '4.0.0',
+    ...fixture.metadata,
+  });
+  await writeJson(path.join(rootPath, 'tags.json'), {
+    historyTags: [],
+    starredTags: [],
+    ...fixture.tags,
+  });
+  await writeJson(
+    path.join(rootPath, 'mtime.json'),
+    fixture.mtime ?? Object.fromEntries(items.map((item) => [item.id, item.lastModified]))
+  );
+
+  for (const item of items) {
+    const infoDir = path.join(rootPath, 'images', `${item.id}.info`);
+    await fs.mkdir(infoDir);
+    await writeJson(path.join(infoDir, 'metadata.json'), item);
+    await fs.writeFile(path.join(infoDir, `${item.name}.${item.ext}`), 'file');
+    await fs.writeFile(path.join(infoDir, `${item.name}_thumbnail.png`), 'thumbnail');
+  }
+  return rootPath;
+}
+
+/** Removes every library created so far; call from `afterEach` */
+export async function removeTempLibraries(): Promise<void> {
+  const parents = created.splice(0);
+  await Promise.all(parents.map((parent) => fs.rm(parent, { recursive: true, force: true })));
+}
+
+export function itemFixture(id: string, patch: Partial<ItemMetadata> = {}): ItemMetadata {
+  return {
+    id,
+    name: `item-${id}`,
+    size: 4,
+    btime: 1,
+    mtime: 1,
+    ext: 'jpg',
+    tags: [],
+    folders: [],
+    isDeleted: false,
+    url: '',
+    annotation: '',
+    modificationTime: 1,
+    lastModified: 1,
+    ...patch,
+  };
+}
+
+export function folderFixture(id: string, patch: Partial<LibraryFolder> = {}): LibraryFolder {
+  return {
+    id,
+    name: `folder-${id}`,
+    description: '',
+    children: [],
+    modificationTime: 1,
+    tags: [],
+    password: '',
+    passwordTips: '',
+    ...patch,
+  };
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.writeFile(filePath, JSON.stringify(value, null, 2));
+}
@@ -0,0 +1,105 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BareLibrary } from './bare-library';
+import { ConcurrentModificationError, LockReentryError } from './errors';
+import { createTempLibrary, folderFixture, itemFixture, removeTempLibraries } from './test-library';
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await removeTempLibraries();
+});
+
+describe('BareLibrary.transaction', () => {
+  it('writes metadata.json once for many staged changes', async () => {
+    const lib = new BareLibrary(await createTempLibrary());
+    const writeText = vi.spyOn(lib.core, 'writeText');
+
+    await lib.transaction(async (tx) => {
+      for (let i = 0; i < 50; i++) await tx.folders.add(folderFixture(`F${i}`));
+      await tx.tagGroups.add({ id: 'G1', name: 'Group', tags: ['red'] });
+      await tx.quickAccess.add({ type: 'folder', id: 'F0' });
+    });
+
+    expect(writeText.mock.calls.map(([filePath]) => filePath)).toEqual([lib.core.metadataPath()]);
+    const meta = await lib.readLibraryMetadata();
+    expect(meta.folders).toHaveLength(50);
+    expect(meta.tagsGroups.map((group) => group.id)).toEqual(['G1']);
+    expect(meta.quickAccess).toEqual([{ type: 'folder', id: 'F0' }]);
+  });
+
+  it('lets sub-APIs read their own staged writes', async () => {
+    const lib = new BareLibrary(await createTempLibrary());
+
+    const found = await lib.transaction(async (tx) => {
+      await tx.folders.add(folderFixture('parent'));
+      await tx.folders.add(folderFixture('child'), 'parent');
+      return tx.folders.getById('child');
+    });
+
+    expect(found?.id).toBe('child');
+    expect((await lib.folders.getById('parent'))?.children.map((f) => f.id)).toEqual(['child']);
+  });
+
+  it('writes nothing when the callback throws', async () => {
+    const rootPath = await createTempLibrary();
+    const lib = new BareLibrary(rootPath);
+    const source = path.join(rootPath, 'source.png');
+    await fs.writeFile(source, 'png');
+    const before = await fs.readFile(lib.core.metadataPath(), 'utf8');
+
+    await expect(
+      lib.transaction(async (tx) => {
+        await tx.folders.add(folderFixture('F1'));
+        await tx.items.create({ sourcePath: source, id: 'NEWITEM' });
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+
+    expect(await fs.readFile(lib.core.metadataPath(), 'utf8')).toBe(before);
+    expect(await lib.core.listItemIds()).toEqual([]);
+  });
+
+  it('commits item files before the indexes that reference them', async () => {
+    const rootPath = await createTempLibrary();
+    const lib = new BareLibrary(rootPath);
+    const source = path.join(rootPath, 'source.png');
+    await fs.writeFile(source, 'png');
+    const writeText = vi.spyOn(lib.core, 'writeText');
+
+    await lib.transaction(async (tx) => {
+      await tx.items.create({ sourcePath: source, id: 'NEWITEM', tags: ['t'] });
+    });
+
+    const written = writeText.mock.calls.map(([filePath]) => filePath);
+    expect(written[0]).toBe(lib.core.itemMetadataPath('NEWITEM'));
+    expect(written.slice(1).sort()).toEqual([lib.core.mtimePath(), lib.core.tagsPath()].sort());
+    expect(await fs.readdir(lib.core.itemInfoDir('NEWITEM'))).toContain('source.png');
+  });
+
+  it('rejects non-transactional writes to the same library from inside the callback', async () => {
+    const lib = new BareLibrary(await createTempLibrary());
+
+    await expect(
+      lib.transaction(async () => {
+        await lib.folders.add(folderFixture('F1'));
+      })
+    ).rejects.toThrow(LockReentryError);
+  });
+
+  it('refuses to commit over files changed since they were read in optimistic mode', async () => {
+    const rootPath = await createTempLibrary({ items: [itemFixture('A')] });
+    const lib = new BareLibrary(rootPath, { optimistic: true });
+
+    await expect(
+      lib.transaction(async (tx) => {
+        await tx.folders.add(folderFixture('F1'));
+        // Eagle saves metadata.json while the transaction is open
+        const later = new Date(Date.now() + 5000);
+        await fs.utimes(lib.core.metadataPath(), later, later);
+      })
+    ).rejects.toThrow(ConcurrentModificationError);
+
+    expect(await lib.folders.listTree()).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { promises as fs } from 'node:fs';
+import { BareLibraryCore } from './core';
+import { ConcurrentModificationError } from './errors';
+import { BareFolders } from './folders';
+import { BareItems } from './items';
+import { BareQuickAccess } from './quick-access';
+import { BareSmartFolders } from './smart-folders';
+import { BareTagGroups } from './tags';
+
+type FileOp =
+  | { type: 'mkdir'; path: string }
+  | { type: 'copy'; from: string; to: string }
+  | { type: 'remove'; path: string };
+
+/**
+ * Core that stages every write in memory instead of touching disk.
+ * Reads see staged content first, so sub-APIs behave as if writes had landed.
+ */
+export class BareTransactionCore extends BareLibraryCore {
+  private readonly staged = new Map<string, string>();
+  private readonly fileOps: FileOp[] = [];
+  private readonly baseMtimes = new Map<string, number>();
+
+  constructor(public readonly parent: BareLibraryCore) {
+    super(parent.rootPath, { backup: parent.backup, lock: false, schema: parent.schema });
+  }
+
+  /** Paths with staged writes */
+  get pendingPaths(): string[] {
+    return Array.from(this.staged.keys());
+  }
+
+  override async readJson<T>(filePath: string): Promise<T> {
+    const staged = this.staged.get(filePath);
+    if (staged !== undefined) return JSON.parse(staged) as T;
+
+    if (!this.baseMtimes.has(filePath)) {
+      const stats = await fs.stat(filePath);
+      this.baseMtimes.set(filePath, stats.mtimeMs);
+    }
+    return super.readJson<T>(filePath);
+  }
+
+  override async writeText(filePath: string, content: string): Promise<void> {
+    this.staged.set(filePath, content);
+  }
+
+  override async ensureDir(dirPath: string): Promise<void> {
+    this.fileOps.push({ type: 'mkdir', path: dirPath });
+  }
+
+  override async copyFile(sourcePath: string, destPath: string): Promise<void> {
+    this.fileOps.push({ type: 'copy', from: sourcePath, to: destPath });
+  }
+
+  override async removeDir(dirPath: string): Promise<void> {
+    this.fileOps.push({ type: 'remove', path: dirPath });
+  }
+
+  // The parent already holds the lock for the whole transaction
+  override async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return fn();
+  }
+
+  /**
+   * Writes all staged files through the parent core. Directories and copied
+   * files go first, then item files, then `metadata.json` last, and removals
+   * at the very end, so an interrupted commit never references missing items.
+   */
+  async commit(): Promise<void> {
+    if (this.parent.optimistic) {
+      await this.assertUnchanged();
+    }
+
+    const rootFiles = [this.parent.mtimePath(), this.parent.tagsPath(), this.parent.metadataPath()];
+    const order = [
+      ...this.pendingPaths.filter((filePath) => !rootFiles.includes(filePath)),
+      ...rootFiles.filter((filePath) => this.staged.has(filePath)),
+    ];
+
+    for (const op of this.fileOps) {
+      if (op.type === 'mkdir') await this.parent.ensureDir(op.path);
+      if (op.type === 'copy') await this.parent.copyFile(op.from, op.to);
+    }
+    for (const filePath of order) {
+      await this.parent.writeText(filePath, this.staged.get(filePath) ?? '');
+    }
+    for (const op of this.fileOps) {
+      if (op.type === 'remove') await this.parent.removeDir(op.path);
+    }
+    this.rollback();
+  }
+
+  /** Discards all staged writes */
+  rollback(): void {
+    this.staged.clear();
+    this.fileOps.length = 0;
+  }
+
+  private async assertUnchanged(): Promise<void> {
+    for (const [filePath, mtime] of this.baseMtimes) {
+      if (!this.staged.has(filePath)) continue;
+      const stats = await fs.stat(filePath);
+      if (stats.mtimeMs !== mtime) {
+        throw new ConcurrentModificationError(filePath, 1);
+      }
+    }
+  }
+}
+
+/**
+ * Sub-APIs bound to a staging core. Changes are committed in one write per file
+ * when the transaction callback resolves, and discarded if it throws.
+ */
+export class BareTransaction {
+  readonly core: BareTransactionCore;
+  readonly items: BareItems;
+  readonly folders: BareFolders;
+  readonly smartFolders: BareSmartFolders;
+  readonly tagGroups: BareTagGroups;
+  readonly quickAccess: BareQuickAccess;
+
+  constructor(parent: BareLibraryCore) {
+    this.core = new BareTransactionCore(parent);
+    this.items = new BareItems(this.core);
+    this.folders = new BareFolders(this.core);
+    this.smartFolders = new BareSmartFolders(this.core);
+    this.tagGroups = new BareTagGroups(this.core);
+    this.quickAccess = new BareQuickAccess(this.core);
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  validateItemMetadata,
+  validateLibraryMetadata,
+  validateMtimeIndex,
+  validateTagsIndex,
+} from './types';
+import { folderFixture, itemFixture } from './test-library';
+
+describe('validateLibraryMetadata', () => {
+  it('accepts a well-formed document', () => {
+    const result = validateLibraryMetadata({
+      folders: [folderFixture('F1', { children: [folderFixture('F2')] })],
+      smartFolders: [],
+      quickAccess: [],
+      tagsGroups: [],
+      modificationTime: 1,
+      applicationVersion: '4.0.0',
+    });
+
+    expect(result).toMatchObject({ valid: true, issues: [] });
+  });
+
+  it('reports nested problems with their path and leaves the value alone', () => {
+    const value = {
+      folders: [{ ...folderFixture('F1'), children: [{ id: 'F2', name: 3 }] }],
+      smartFolders: [],
+      tagsGroups: [],
+      modificationTime: 1,
+      applicationVersion: '4.0.0',
+    };
+
+    const result = validateLibraryMetadata(value);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toContainEqual({
+      path: 'quickAccess',
+      message: 'Missing required array',
+      repaired: false,
+    });
+    expect(result.issues).toContainEqual({
+      path: 'folders[0].children[0].name',
+      message: 'Expected string, got number',
+      repaired: false,
+    });
+    expect(value).not.toHaveProperty('quickAccess');
+  });
+
+  it('fills defaults and drops non-object entries in repair mode', () => {
+    const result = validateLibraryMetadata(
+      { folders: [{ id: 'F1' }, 'junk'], modificationTime: 1, applicationVersion: '4.0.0' },
+      { repair: true }
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.every((issue) => issue.repaired)).toBe(true);
+    expect(result.value.quickAccess).toEqual([]);
+    expect(result.value.folders).toEqual([
+      {
+        id: 'F1',
+        name: '',
+        description: '',
+        children: [],
+        modificationTime: 0,
+        tags: [],
+        password: '',
+        passwordTips: '',
+      },
+    ]);
+  });
+
+  it('cannot repair a missing folder id', () => {
+    const result = validateLibraryMetadata(
+      {
+        folders: [{ name: 'x' }],
+        smartFolders: [],
+        quickAccess: [],
+        tagsGroups: [],
+        modificationTime: 1,
+        applicationVersion: '4.0.0',
+      },
+      { repair: true }
+    );
+
+    expect(result.issues).toContainEqual({
+      path: 'folders[0].id',
+      message: 'Missing required string',
+      repaired: false,
+    });
+  });
+
+  it('rejects a non-object root', () => {
+    expect(validateLibraryMetadata([]).issues).toEqual([
+      { path: '', message: 'Expected object, got array', repaired: false },
+    ]);
+  });
+});
+
+describe('index validators', () => {
+  it('strips non-string tags in repair mode', () => {
+    const result = validateTagsIndex({ historyTags: ['a', 1], starredTags: [] }, { repair: true });
+
+    expect(result.issues).toEqual([
+      { path: 'historyTags', message: 'Contains 1 non-string entries', repaired: true },
+    ]);
+    expect(result.value.historyTags).toEqual(['a']);
+  });
+
+  it('reports mtime entries that are not numbers', () => {
+    const result = validateMtimeIndex({ A: 1, B: 'x', all: 2 });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.path)).toEqual(['B']);
+  });
+
+  it('validates item metadata', () => {
+    expect(validateItemMetadata(itemFixture('A')).valid).toBe(true);
+
+    const result = validateItemMetadata(
+      { ...itemFixture('A'), id: undefined, tags: 'red' },
+      { repair: true }
+    );
+    expect(result.issues.map((issue) => [issue.path, issue.repaired])).toEqual([
+      ['id', false],
+      ['tags', true],
+    ]);
+    expect(result.value.tags).toEqual([]);
+  });
+});
@@ -1,3 +1,5 @@
+import type { ItemFilter } from '../filter';
+
 export interface LibraryMetadata {
   folders: LibraryFolder[];
   smartFolders: SmartFolder[];
@@ -87,9 +89,333 @@ export interface MtimeIndex {
   all?: number;
 }
 
+export interface BareLibraryOptions {
+  /** Keep a rolling `.bak` of each overwritten file, see `restoreBackups()` (default: false) */
+  backup?: boolean;
+  /** Guard read-modify-write cycles with a `.bareio.lock` file (default: true) */
+  lock?: boolean;
+  /** Max time to wait for the lock in ms, including earlier callers in this process (default: 10000) */
+  lockTimeout?: number;
+  /** Age in ms after which an abandoned lock file is taken over; held locks are kept fresh (default: 30000) */
+  lockStale?: number;
+  /** Detect writes by other processes (e.g. Eagle) between read and write (default: false) */
+  optimistic?: boolean;
+  /** How often a conflicting update is re-applied before throwing (default: 3) */
+  optimisticRetries?: number;
+  /**
+   * How reads treat malformed JSON shapes (default: 'trust'):
+   * - `trust`: cast without checking
+   * - `validate`: throw `SchemaValidationError`
+   * - `repair`: fill in defaults in memory (nothing is written back)
+   */
+  schema?: SchemaMode;
+}
+
+export type SchemaMode = 'trust' | 'validate' | 'repair';
+
+export interface CreateItemOptions {
+  /** File to copy into the library */
+  sourcePath: string;
+  /** Item name (default: source file name without extension) */
+  name?: string;
+  tags?: string[];
+  /** Folder IDs to add the item to */
+  folders?: string[];
+  annotation?: string;
+  url?: string;
+  star?: number;
+  /** Explicit item ID (default: generated, Eagle-compatible); must not exist yet */
+  id?: string;
+}
+
+export interface RemoveItemOptions {
+  /** Delete the `.info` directory instead of moving the item to trash (default: false) */
+  hard?: boolean;
+}
+
+export interface IterateItemsOptions {
+  /** Restrict iteration to these item IDs (default: every `.info` directory) */
+  ids?: string[];
+  /** Metadata files read in parallel (default: 16) */
+  concurrency?: number;
+  /** Item IDs resolved per batch; bounds how much is held in memory (default: 256) */
+  batchSize?: number;
+  /** Only yield items matching this filter */
+  filter?: ItemFilter;
+  /** Called for items whose metadata can't be read; those items are skipped */
+  onError?: (id: string, error: unknown) => void;
+}
+
 export interface WriteItemOptions {
   updateIndexes?: boolean;
   syncUrlFile?: boolean;
 }
 
 export type UpdateMetadataFn = (metadata: LibraryMetadata) => LibraryMetadata;
+
+// ============================================================================
+// Runtime validation
+// ============================================================================
+
+export interface ValidationIssue {
+  /** Location of the problem inside the document, e.g. `folders[0].children` */
+  path: string;
+  message: string;
+  /** True when repair mode replaced the value with a default */
+  repaired: boolean;
+}
+
+export interface ValidationResult<T> {
+  /** True when no issues were found */
+  valid: boolean;
+  issues: ValidationIssue[];
+  /** The input value, with defaults filled in when `repair` was set */
+  value: T;
+}
+
+export interface ValidateOptions {
+  /** Fill missing or mistyped fields with defaults in place (default: false) */
+  repair?: boolean;
+}
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'string[]' | 'array';
+
+interface ValidationContext {
+  issues: ValidationIssue[];
+  repair: boolean;
+}
+
+type Doc = Record<string, unknown>;
+
+function isDoc(value: unknown): value is Doc {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'string[]':
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+function report(ctx: ValidationContext, path: string, message: string, repaired: boolean): void {
+  ctx.issues.push({ path, message, repaired });
+}
+
+/**
+ * Checks `doc[key]`. A missing or mistyped value is reported and, in repair mode,
+ * replaced by `fallback`. Without a fallback the field is reported but left alone.
+ */
+function checkField(
+  ctx: ValidationContext,
+  doc: Doc,
+  key: string,
+  kind: FieldKind,
+  base: string,
+  fallback?: () => unknown,
+  optional = false
+): void {
+  const path = joinPath(base, key);
+  const value = doc[key];
+
+  if (value === undefined) {
+    if (optional) return;
+    const repaired = ctx.repair && fallback !== undefined;
+    if (repaired) doc[key] = fallback();
+    report(ctx, path, `Missing required ${kind}`, repaired);
+    return;
+  }
+
+  if (!matchesKind(value, kind)) {
+    const repaired = ctx.repair && fallback !== undefined;
+    if (repaired) doc[key] = fallback();
+    report(ctx, path, `Expected ${kind}, got ${describe(value)}`, repaired);
+    return;
+  }
+
+  if (kind === 'string[]') {
+    const list = value as unknown[];
+    const invalid = list.filter((entry) => typeof entry !== 'string');
+    if (invalid.length) {
+      if (ctx.repair) doc[key] = list.filter((entry) => typeof entry === 'string');
+      report(ctx, path, `Contains ${invalid.length} non-string entries`, ctx.repair);
+    }
+  }
+}
+
+/**
+ * Validates each entry of `doc[key]` as an object. Non-object entries are
+ * dropped in repair mode.
+ */
+function checkEntries(
+  ctx: ValidationContext,
+  doc: Doc,
+  key: string,
+  base: string,
+  checkEntry: (entry: Doc, path: string) => void
+): void {
+  const list = doc[key];
+  if (!Array.isArray(list)) return;
+
+  const path = joinPath(base, key);
+  const kept: unknown[] = [];
+  list.forEach((entry: unknown, index) => {
+    const entryPath = joinPath(path, index);
+    if (!isDoc(entry)) {
+      report(ctx, entryPath, `Expected object, got ${describe(entry)}`, ctx.repair);
+      return;
+    }
+    checkEntry(entry, entryPath);
+    kept.push(entry);
+  });
+  if (ctx.repair && kept.length !== list.length) doc[key] = kept;
+}
+
+function checkRoot(ctx: ValidationContext, value: unknown): value is Doc {
+  if (isDoc(value)) return true;
+  report(ctx, '', `Expected object, got ${describe(value)}`, false);
+  return false;
+}
+
+function finish<T>(ctx: ValidationContext, value: unknown): ValidationResult<T> {
+  return { valid: ctx.issues.length === 0, issues: ctx.issues, value: value as T };
+}
+
+function checkLibraryFolder(ctx: ValidationContext, folder: Doc, path: string): void {
+  checkField(ctx, folder, 'id', 'string', path);
+  checkField(ctx, folder, 'name', 'string', path, () => '');
+  checkField(ctx, folder, 'description', 'string', path, () => '');
+  checkField(ctx, folder, 'children', 'array', path, () => []);
+  checkField(ctx, folder, 'modificationTime', 'number', path, () => 0);
+  checkField(ctx, folder, 'tags', 'string[]', path, () => []);
+  checkField(ctx, folder, 'password', 'string', path, () => '');
+  checkField(ctx, folder, 'passwordTips', 'string', path, () => '');
+  checkEntries(ctx, folder, 'children', path, (child, childPath) =>
+    checkLibraryFolder(ctx, child, childPath)
+  );
+}
+
+function checkSmartFolder(ctx: ValidationContext, folder: Doc, path: string): void {
+  checkField(ctx, folder, 'id', 'string', path);
+  checkField(ctx, folder, 'name', 'string', path, () => '');
+  checkField(ctx, folder, 'conditions', 'array', path, () => []);
+  checkEntries(ctx, folder, 'conditions', path, (condition, conditionPath) => {
+    checkField(ctx, condition, 'rules', 'array', conditionPath, () => []);
+  });
+  checkField(ctx, folder, 'children', 'array', path, () => [], true);
+  checkEntries(ctx, folder, 'children', path, (child, childPath) =>
+    checkSmartFolder(ctx, child, childPath)
+  );
+}
+
+function checkTagGroup(ctx: ValidationContext, group: Doc, path: string): void {
+  checkField(ctx, group, 'id', 'string', path);
+  checkField(ctx, group, 'name', 'string', path, () => '');
+  checkField(ctx, group, 'tags', 'string[]', path, () => []);
+}
+
+function checkQuickAccessEntry(ctx: ValidationContext, entry: Doc, path: string): void {
+  checkField(ctx, entry, 'type', 'string', path);
+  checkField(ctx, entry, 'id', 'string', path);
+}
+
+/**
+ * Validates the shape of a library `metadata.json`.
+ */
+export function validateLibraryMetadata(
+  value: unknown,
+  options: ValidateOptions = {}
+): ValidationResult<LibraryMetadata> {
+  const ctx: ValidationContext = { issues: [], repair: options.repair ?? false };
+  if (!checkRoot(ctx, value)) return finish(ctx, value);
+
+  checkField(ctx, value, 'folders', 'array', '', () => []);
+  checkField(ctx, value, 'smartFolders', 'array', '', () => []);
+  checkField(ctx, value, 'quickAccess', 'array', '', () => []);
+  checkField(ctx, value, 'tagsGroups', 'array', '', () => []);
+  checkField(ctx, value, 'modificationTime', 'number', '', () => Date.now());
+  checkField(ctx, value, 'applicationVersion', 'string', '', () => '');
+  checkEntries(ctx, value, 'folders', '', (entry, path) => checkLibraryFolder(ctx, entry, path));
+  checkEntries(ctx, value, 'smartFolders', '', (entry, path) => checkSmartFolder(ctx, entry, path));
+  checkEntries(ctx, value, 'quickAccess', '', (entry, path) =>
+    checkQuickAccessEntry(ctx, entry, path)
+  );
+  checkEntries(ctx, value, 'tagsGroups', '', (entry, path) => checkTagGroup(ctx, entry, path));
+  return finish(ctx, value);
+}
+
+/**
+ * Validates the shape of a library `tags.json`.
+ */
+export function validateTagsIndex(
+  value: unknown,
+  options: ValidateOptions = {}
+): ValidationResult<TagsIndex> {
+  const ctx: ValidationContext = { issues: [], repair: options.repair ?? false };
+  if (!checkRoot(ctx, value)) return finish(ctx, value);
+
+  checkField(ctx, value, 'historyTags', 'string[]', '', () => []);
+  checkField(ctx, value, 'starredTags', 'string[]', '', () => []);
+  return finish(ctx, value);
+}
+
+/**
+ * Validates the shape of a library `mtime.json`. Non-numeric entries are
+ * removed in repair mode.
+ */
+export function validateMtimeIndex(
+  value: unknown,
+  options: ValidateOptions = {}
+): ValidationResult<MtimeIndex> {
+  const ctx: ValidationContext = { issues: [], repair: options.repair ?? false };
+  if (!checkRoot(ctx, value)) return finish(ctx, value);
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (matchesKind(entry, 'number')) continue;
+    if (ctx.repair) Reflect.deleteProperty(value, key);
+    report(ctx, key, `Expected number, got ${describe(entry)}`, ctx.repair);
+  }
+  return finish(ctx, value);
+}
+
+/**
+ * Validates the shape of an item's `images/<id>.info/metadata.json`.
+ */
+export function validateItemMetadata(
+  value: unknown,
+  options: ValidateOptions = {}
+): ValidationResult<ItemMetadata> {
+  const ctx: ValidationContext = { issues: [], repair: options.repair ?? false };
+  if (!checkRoot(ctx, value)) return finish(ctx, value);
+
+  checkField(ctx, value, 'id', 'string', '');
+  checkField(ctx, value, 'name', 'string', '', () => '');
+  checkField(ctx, value, 'size', 'number', '', () => 0);
+  checkField(ctx, value, 'btime', 'number', '', () => 0);
+  checkField(ctx, value, 'mtime', 'number', '', () => 0);
+  checkField(ctx, value, 'ext', 'string', '');
+  checkField(ctx, value, 'tags', 'string[]', '', () => []);
+  checkField(ctx, value, 'folders', 'string[]', '', () => []);
+  checkField(ctx, value, 'isDeleted', 'boolean', '', () => false);
+  checkField(ctx, value, 'url', 'string', '', () => '');
+  checkField(ctx, value, 'annotation', 'string', '', () => '');
+  checkField(ctx, value, 'modificationTime', 'number', '', () => 0);
+  checkField(ctx, value, 'lastModified', 'number', '', () => 0);
+  return finish(ctx, value);
+}
@@ -0,0 +1,99 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { BareLibrary } from './bare-library';
+import { BareLibraryCore } from './core';
+import { SchemaValidationError } from './errors';
+import { createTempLibrary, itemFixture, removeTempLibraries } from './test-library';
+
+afterEach(removeTempLibraries);
+
+/** Library whose `tags.json` is gone and whose item `A` has a string `tags` field */
+async function createBrokenLibrary(): Promise<BareLibrary> {
+  const rootPath = await createTempLibrary({ items: [itemFixture('A'), itemFixture('B')] });
+  const lib = new BareLibrary(rootPath);
+  await fs.rm(lib.core.tagsPath());
+  await fs.writeFile(
+    lib.core.itemMetadataPath('A'),
+    JSON.stringify({ ...itemFixture('A'), tags: 'red' })
+  );
+  return lib;
+}
+
+describe('BareLibrary.validate', () => {
+  it('reports a clean library as valid', async () => {
+    const lib = new BareLibrary(await createTempLibrary({ items: [itemFixture('A')] }));
+
+    expect(await lib.validate()).toEqual({
+      valid: true,
+      issues: [],
+      repairedFiles: [],
+      itemsChecked: 1,
+    });
+  });
+
+  it('reports issues per file without writing anything', async () => {
+    const lib = await createBrokenLibrary();
+
+    const report = await lib.validate();
+
+    expect(report.valid).toBe(false);
+    expect(report.itemsChecked).toBe(2);
+    expect(report.issues).toEqual([
+      { file: 'tags.json', path: '', message: 'File not found', repaired: false },
+      {
+        file: path.join('images', 'A.info', 'metadata.json'),
+        path: 'tags',
+        message: 'Expected string[], got string',
+        repaired: false,
+      },
+    ]);
+    await expect(fs.access(lib.core.tagsPath())).rejects.toThrow();
+  });
+});
+
+describe('BareLibrary.repair', () => {
+  it('writes repaired files back and reports the library as valid', async () => {
+    const lib = await createBrokenLibrary();
+
+    const report = await lib.repair();
+
+    expect(report.valid).toBe(true);
+    expect(report.repairedFiles.sort()).toEqual(
+      [path.join('images', 'A.info', 'metadata.json'), 'tags.json'].sort()
+    );
+    expect(await lib.core.readTagsIndex()).toEqual({ historyTags: [], starredTags: [] });
+    expect((await lib.core.readItemMetadata('A')).tags).toEqual([]);
+    expect((await lib.validate()).valid).toBe(true);
+  });
+
+  it('stays invalid when a file cannot be parsed', async () => {
+    const lib = new BareLibrary(await createTempLibrary({ items: [itemFixture('A')] }));
+    await fs.writeFile(lib.core.itemMetadataPath('A'), '{ not json');
+
+    const report = await lib.repair();
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]?.message).toMatch(/^Invalid JSON/);
+    expect(report.repairedFiles).toEqual([]);
+  });
+});
+
+describe('BareLibraryCore schema modes', () => {
+  it('throws SchemaValidationError in validate mode', async () => {
+    const lib = await createBrokenLibrary();
+    const core = new BareLibraryCore(lib.core.rootPath, { schema: 'validate' });
+
+    await expect(core.readItemMetadata('A')).rejects.toThrow(SchemaValidationError);
+    await expect(core.readItemMetadata('B')).resolves.toMatchObject({ id: 'B' });
+  });
+
+  it('repairs in memory only in repair mode', async () => {
+    const lib = await createBrokenLibrary();
+    const core = new BareLibraryCore(lib.core.rootPath, { schema: 'repair' });
+
+    expect((await core.readItemMetadata('A')).tags).toEqual([]);
+    expect((await lib.core.readItemMetadata('A')).tags).toBe('red');
+  });
+});
@@ -0,0 +1,115 @@
+import path from 'node:path';
+import { BareLibraryCore } from './core';
+import {
+  validateItemMetadata,
+  validateLibraryMetadata,
+  validateMtimeIndex,
+  validateTagsIndex,
+} from './types';
+import type { ValidateOptions, ValidationIssue, ValidationResult } from './types';
+
+export interface LibraryValidationIssue extends ValidationIssue {
+  /** File the issue was found in, relative to the library root */
+  file: string;
+}
+
+export interface LibraryValidationReport {
+  /** True when every issue found was repaired (always the case when none were found) */
+  valid: boolean;
+  issues: LibraryValidationIssue[];
+  /** Files rewritten by repair mode, relative to the library root */
+  repairedFiles: string[];
+  itemsChecked: number;
+}
+
+export interface ValidateLibraryOptions extends ValidateOptions {
+  /** Item metadata files read in parallel (default: 32) */
+  concurrency?: number;
+}
+
+type Validator = (value: unknown, options: ValidateOptions) => ValidationResult<unknown>;
+
+/**
+ * Walks `metadata.json`, `tags.json`, `mtime.json` and every item's metadata
+ * and reports shape problems. With `repair`, fixable issues are written back
+ * (and missing index files recreated) while holding the library lock.
+ */
+export async function validateLibrary(
+  core: BareLibraryCore,
+  options: ValidateLibraryOptions = {}
+): Promise<LibraryValidationReport> {
+  const run = async () => {
+    const report: LibraryValidationReport = {
+      valid: true,
+      issues: [],
+      repairedFiles: [],
+      itemsChecked: 0,
+    };
+    const repair = options.repair ?? false;
+
+    await checkFile(core, report, core.metadataPath(), validateLibraryMetadata, repair);
+    await checkFile(core, report, core.tagsPath(), validateTagsIndex, repair, () => ({
+      historyTags: [],
+      starredTags: [],
+    }));
+    await checkFile(core, report, core.mtimePath(), validateMtimeIndex, repair, () => ({}));
+
+    const ids = await core.listItemIds();
+    const concurrency = Math.max(1, options.concurrency ?? 32);
+    for (let i = 0; i < ids.length; i += concurrency) {
+      const batch = ids.slice(i, i + concurrency);
+      await Promise.all(
+        batch.map((id) =>
+          checkFile(core, report, core.itemMetadataPath(id), validateItemMetadata, repair)
+        )
+      );
+      report.itemsChecked += batch.length;
+    }
+
+    report.valid = report.issues.every((issue) => issue.repaired);
+    return report;
+  };
+
+  return options.repair ? core.withLock(run) : run();
+}
+
+async function checkFile(
+  core: BareLibraryCore,
+  report: LibraryValidationReport,
+  filePath: string,
+  validate: Validator,
+  repair: boolean,
+  createDefault?: () => unknown
+): Promise<void> {
+  const file = path.relative(core.rootPath, filePath);
+
+  let value: unknown;
+  try {
+    value = await core.readJson<unknown>(filePath);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT') {
+      const repaired = repair && createDefault !== undefined;
+      if (repaired) {
+        await core.writeJson(filePath, createDefault());
+        report.repairedFiles.push(file);
+      }
+      report.issues.push({ file, path: '', message: 'File not found', repaired });
+    } else {
+      const message =
+        error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : String(error);
+      report.issues.push({ file, path: '', message, repaired: false });
+    }
+    return;
+  }
+
+  const result = validate(value, { repair });
+  for (const issue of result.issues) {
+    report.issues.push({ file, ...issue });
+  }
+
+  if (repair && result.issues.some((issue) => issue.repaired)) {
+    await core.writeJson(filePath, result.value);
+    report.repairedFiles.push(file);
+  }
+}
@@ -0,0 +1,205 @@
+import { mkdtempSync, promises as fs, rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeEagle } from '../testing/fake-eagle';
+import {
+  ConfigValidationError,
+  EagleUserConfig,
+  type ConfigChangeEvent,
+  type EagleUserConfigOptions,
+} from './config';
+import { disposeAll } from './subscribe';
+
+interface Settings {
+  theme: 'light' | 'dark';
+  fontSize: number;
+  recent: string[];
+}
+
+let home: string;
+let fake: FakeEagle;
+let restore: () => void;
+
+beforeEach(async () => {
+  home = mkdtempSync(path.join(os.tmpdir(), 'eagle-config-'));
+  fake = await FakeEagle.create({
+    homedir: home,
+    libraries: { '/libs/Other.library': { path: '/libs/Other.library' } },
+  });
+  restore = fake.install();
+});
+
+afterEach(() => {
+  disposeAll();
+  restore();
+  rmSync(home, { recursive: true, force: true });
+});
+
+function createConfig(options: Pick<EagleUserConfigOptions, 'invalid' | 'onInvalid'> = {}) {
+  return new EagleUserConfig<Settings, { theme: 'light' | 'dark' }>({
+    type: 'global',
+    schema: {
+      theme: { enum: ['light', 'dark'] },
+      fontSize: (value) => typeof value === 'number' && value > 0,
+      recent: { type: 'array', items: { type: 'string', minLength: 1 } },
+    },
+    defaults: { theme: 'light' },
+    onInvalid: () => undefined,
+    ...options,
+  });
+}
+
+async function writeStored(config: EagleUserConfig<Settings>, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(config.getFilePath()), { recursive: true });
+  await fs.writeFile(config.getFilePath(), JSON.stringify(data));
+}
+
+async function readStored(config: EagleUserConfig<Settings>): Promise<unknown> {
+  return JSON.parse(await fs.readFile(config.getFilePath(), 'utf-8'));
+}
+
+describe('EagleUserConfig schema and defaults', () => {
+  it('stores config under ~/.eaglecooler/config', () => {
+    expect(createConfig().getFilePath()).toBe(
+      path.join(home, '.eaglecooler', 'config', 'global.json')
+    );
+  });
+
+  it('returns defaults for missing keys without writing them', async () => {
+    const config = createConfig();
+
+    expect(await config.get('theme')).toBe('light');
+    expect(await config.get('fontSize')).toBeUndefined();
+    expect(await config.getAll()).toEqual({ theme: 'light' });
+    await expect(fs.access(config.getFilePath())).rejects.toThrow();
+  });
+
+  it('rejects invalid values on set and setMany', async () => {
+    const config = createConfig();
+
+    await config.set('fontSize', 12);
+    const error = await config
+      .setMany({ theme: 'blue' as 'dark', recent: ['a', ''] })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues.map((issue) => issue.message)).toEqual([
+      'theme must be one of ["light","dark"]',
+      'recent[1] must be at least 1 characters',
+    ]);
+    await expect(config.set('fontSize', -1)).rejects.toThrow('fontSize failed validation');
+    expect(await readStored(config)).toEqual({ fontSize: 12 });
+  });
+
+  it('reports invalid stored values and returns the default instead', async () => {
+    const onInvalid = vi.fn<NonNullable<EagleUserConfigOptions['onInvalid']>>();
+    const config = createConfig({ onInvalid });
+    await writeStored(config, { theme: 'blue', fontSize: 0, other: true });
+
+    expect(await config.getAll()).toEqual({ theme: 'light', other: true });
+    expect(onInvalid.mock.calls.map(([issue]) => issue.key)).toEqual(['theme', 'fontSize']);
+    expect(await readStored(config)).toEqual({ theme: 'blue', fontSize: 0, other: true });
+  });
+
+  it('overwrites invalid stored values with invalid: reset', async () => {
+    const config = createConfig({ invalid: 'reset' });
+    await writeStored(config, { theme: 'blue', fontSize: 0, other: true });
+
+    await config.getAll();
+
+    expect(await readStored(config)).toEqual({ theme: 'light', other: true });
+  });
+
+  it('lists issues with validate() without reporting or resetting them', async () => {
+    const onInvalid = vi.fn<NonNullable<EagleUserConfigOptions['onInvalid']>>();
+    const config = createConfig({ invalid: 'reset', onInvalid });
+    await writeStored(config, { recent: 'a' });
+
+    expect(await config.validate()).toEqual([
+      { key: 'recent', value: 'a', message: 'recent must be array' },
+    ]);
+    expect(onInvalid).not.toHaveBeenCalled();
+    expect(await readStored(config)).toEqual({ recent: 'a' });
+  });
+
+  it('checks nested objects against properties, required and additionalProperties', async () => {
+    const config = new EagleUserConfig<{ window: { width: number } }>({
+      type: 'global',
+      schema: {
+        window: {
+          type: 'object',
+          properties: { width: { type: 'integer', minimum: 100 } },
+          required: ['width'],
+          additionalProperties: false,
+        },
+      },
+    });
+
+    await config.set('window', { width: 200 });
+    await expect(config.set('window', { width: 50 })).rejects.toThrow(
+      'window.width must be >= 100'
+    );
+    await expect(config.set('window', {} as { width: number })).rejects.toThrow(
+      'window.width is required'
+    );
+    await expect(
+      config.set('window', { width: 200, height: 1 } as { width: number })
+    ).rejects.toThrow('window.height is not allowed');
+  });
+});
+
+describe('EagleUserConfig.watch', () => {
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('reports changes to the watched key made by another instance', async () => {
+    const config = createConfig();
+    const events: ConfigChangeEvent<string>[] = [];
+    config.watch('theme', (event) => events.push(event), { interval: 20 });
+    await wait(40);
+
+    await createConfig().set('fontSize', 20);
+    await wait(60);
+    expect(events).toEqual([]);
+
+    await createConfig().set('theme', 'dark');
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    expect(events[0]).toMatchObject({ key: 'theme', previous: 'light', current: 'dark' });
+  });
+
+  it('reports the whole section with defaults applied', async () => {
+    const config = createConfig();
+    const events: ConfigChangeEvent<unknown>[] = [];
+    const unsubscribe = config.watch((event) => events.push(event), { interval: 20 });
+    await wait(40);
+
+    await config.set('fontSize', 20);
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    unsubscribe();
+    await config.set('fontSize', 30);
+    await wait(60);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      key: undefined,
+      previous: { theme: 'light' },
+      current: { theme: 'light', fontSize: 20 },
+    });
+  });
+
+  it('takes a fresh baseline for librarybased configs on library switch', async () => {
+    const config = new EagleUserConfig<Settings>({ type: 'librarybased' });
+    await config.set('theme', 'dark');
+    const events: ConfigChangeEvent<unknown>[] = [];
+    config.watch('theme', (event) => events.push(event), { interval: 20 });
+    await wait(40);
+
+    await fake.switchLibrary('/libs/Other.library');
+    await wait(80);
+    expect(events).toEqual([]);
+
+    await config.set('theme', 'light');
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    expect(events[0]).toMatchObject({ previous: undefined, current: 'light' });
+  });
+});
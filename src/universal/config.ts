@@ -1,6 +1,7 @@
-import { promises as fs } from 'node:fs';
+import { mkdirSync, promises as fs } from 'node:fs';
 import path from 'node:path';
 import { createHash, randomUUID } from 'node:crypto';
+import { onStateChange, type SubscribeOptions, type Unsubscribe } from './subscribe';
 
 // ============================================================================
 // Types
@@ -8,7 +9,10 @@ import { createHash, randomUUID } from 'node:crypto';
 
 export type ConfigType = 'global' | 'pluginbased' | 'librarybased';
 
-export interface EagleUserConfigOptions {
+export interface EagleUserConfigOptions<
+	TSchema extends object = ConfigData,
+	TDefaults extends Partial<TSchema> = Partial<TSchema>,
+> {
 	/**
 	 * The type of config storage:
 	 * - `global`: Single global config (global.json)
@@ -38,10 +42,122 @@ export interface EagleUserConfigOptions {
 	 * Default: false
 	 */
 	useLibraryUuid?: boolean;
+
+	/**
+	 * Validator per key: a function returning true for valid values,
+	 * or a JSON-schema subset (`type`, `enum`, ranges, `items`, `properties`, ...).
+	 */
+	schema?: ConfigSchema<TSchema>;
+
+	/**
+	 * Values returned for missing keys and in place of invalid ones.
+	 * Keys listed here are typed as always present by `get` / `getAll`.
+	 */
+	defaults?: TDefaults & Partial<TSchema>;
+
+	/**
+	 * What to do with stored values that fail the schema:
+	 * - `report`: pass them to `onInvalid` and return the default instead
+	 * - `reset`: same, and also overwrite them on disk with the default
+	 * Default: 'report'
+	 */
+	invalid?: 'report' | 'reset';
+
+	/**
+	 * Called for each invalid stored value. Default: console.warn
+	 */
+	onInvalid?: (issue: ConfigValidationIssue) => void;
 }
 
 export type ConfigData = Record<string, unknown>;
 
+export type ConfigJsonType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * The JSON-schema subset understood by `EagleUserConfig`.
+ */
+export interface ConfigJsonSchema {
+	type?: ConfigJsonType | ConfigJsonType[];
+	enum?: unknown[];
+	minimum?: number;
+	maximum?: number;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	items?: ConfigJsonSchema;
+	properties?: Record<string, ConfigJsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean;
+}
+
+/**
+ * A plain validator function (type guards work too) or a JSON-schema subset.
+ */
+export type ConfigFieldSchema = ((value: unknown) => boolean) | ConfigJsonSchema;
+
+export type ConfigSchema<TSchema extends object> = {
+	[K in keyof TSchema]?: ConfigFieldSchema;
+};
+
+export interface ConfigValidationIssue {
+	key: string;
+	value: unknown;
+	message: string;
+}
+
+/**
+ * Value of `key` as read back: possibly undefined unless `defaults` covers it.
+ */
+export type ConfigResolvedValue<TSchema, TDefaults, K extends keyof TSchema> =
+	K extends keyof TDefaults ? TSchema[K] : TSchema[K] | undefined;
+
+/**
+ * Section as read back by `getAll()`: keys without a default may be missing.
+ */
+export type ConfigResolvedData<TSchema, TDefaults> = Partial<TSchema> &
+	Pick<TSchema, Extract<keyof TDefaults, keyof TSchema>>;
+
+/**
+ * `get<T>()` keeps the caller-asserted type; without a type argument the schema type is used.
+ */
+type ConfigValue<TSchema, TDefaults, K extends keyof TSchema, T> = [T] extends [never]
+	? ConfigResolvedValue<TSchema, TDefaults, K>
+	: T | undefined;
+
+export interface ConfigChangeEvent<T> {
+	/** Watched key, or undefined when watching the whole section */
+	key: string | undefined;
+	/** Value before the change */
+	previous: T;
+	/** Value after the change */
+	current: T;
+	/** Timestamp of change detection */
+	timestamp: number;
+}
+
+/**
+ * Options for `EagleUserConfig.watch()`.
+ * `backend: 'watch'` watches the ~/.eaglecooler/config directory.
+ */
+export type ConfigWatchOptions = Omit<SubscribeOptions, 'maxEqualLookups'>;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown by `set()` / `setMany()` when a value does not match the config schema.
+ */
+export class ConfigValidationError extends Error {
+	readonly issues: ConfigValidationIssue[];
+
+	constructor(issues: ConfigValidationIssue[]) {
+		super(`Invalid config value: ${issues.map((issue) => issue.message).join('; ')}`);
+		this.name = 'ConfigValidationError';
+		this.issues = issues;
+	}
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -183,6 +299,81 @@ function getLibraryIdentifier(useNameAsIdentifier: boolean): string {
 	return eagle.library.path;
 }
 
+/**
+ * Check a value against a JSON-schema subset. Returns the first problem, or null.
+ */
+function checkJsonSchema(value: unknown, schema: ConfigJsonSchema, at: string): string | null {
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesJsonType(value, type))) {
+			return `${at} must be ${types.join(' or ')}`;
+		}
+	}
+
+	if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+		return `${at} must be one of ${JSON.stringify(schema.enum)}`;
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) return `${at} must be >= ${schema.minimum}`;
+		if (schema.maximum !== undefined && value > schema.maximum) return `${at} must be <= ${schema.maximum}`;
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			return `${at} must be at least ${schema.minLength} characters`;
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			return `${at} must be at most ${schema.maxLength} characters`;
+		}
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+			return `${at} must match ${schema.pattern}`;
+		}
+	}
+
+	if (Array.isArray(value) && schema.items) {
+		for (let i = 0; i < value.length; i++) {
+			const problem = checkJsonSchema(value[i], schema.items, `${at}[${i}]`);
+			if (problem) return problem;
+		}
+	}
+
+	if (matchesJsonType(value, 'object')) {
+		const object = value as ConfigData;
+		for (const name of schema.required ?? []) {
+			if (!(name in object)) return `${at}.${name} is required`;
+		}
+		for (const [name, child] of Object.entries(object)) {
+			const childSchema = schema.properties?.[name];
+			if (childSchema) {
+				const problem = checkJsonSchema(child, childSchema, `${at}.${name}`);
+				if (problem) return problem;
+			} else if (schema.additionalProperties === false) {
+				return `${at}.${name} is not allowed`;
+			}
+		}
+	}
+
+	return null;
+}
+
+function matchesJsonType(value: unknown, type: ConfigJsonType): boolean {
+	switch (type) {
+		case 'integer':
+			return Number.isInteger(value);
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value);
+		case 'array':
+			return Array.isArray(value);
+		case 'object':
+			return typeof value === 'object' && value !== null && !Array.isArray(value);
+		case 'null':
+			return value === null;
+		default:
+			return typeof value === type;
+	}
+}
+
 // ============================================================================
 // Module State
 // ============================================================================
@@ -233,19 +424,44 @@ export function initEagleConfig(plugin: { manifest: { id?: string; name?: string
  *   useLibraryNameAsLibIdentifier: false,
  * });
  * await libraryConfig.set('viewMode', 'grid');
+ *
+ * // Typed config with validation and defaults
+ * const typedConfig = new EagleUserConfig({
+ *   type: 'pluginbased',
+ *   schema: {
+ *     theme: { enum: ['light', 'dark'] },
+ *     fontSize: (value) => typeof value === 'number' && value > 0,
+ *   },
+ *   defaults: { theme: 'light' as 'light' | 'dark', fontSize: 14 },
+ * });
+ * const theme = await typedConfig.get('theme'); // 'light' | 'dark'
  * ```
  */
-export class EagleUserConfig {
+export class EagleUserConfig<
+	TSchema extends object = ConfigData,
+	TDefaults extends Partial<TSchema> = Record<never, never>,
+> {
 	readonly type: ConfigType;
 	readonly thisPluginOnly: boolean;
 	readonly useLibraryNameAsLibIdentifier: boolean;
 	readonly useLibraryUuid: boolean;
 
-	constructor(options: EagleUserConfigOptions) {
+	private readonly schema: Record<string, ConfigFieldSchema | undefined>;
+	private readonly defaults: ConfigData;
+	private readonly invalid: 'report' | 'reset';
+	private readonly onInvalid: (issue: ConfigValidationIssue) => void;
+
+	constructor(options: EagleUserConfigOptions<TSchema, TDefaults>) {
 		this.type = options.type;
 		this.thisPluginOnly = options.thisPluginOnly ?? false;
 		this.useLibraryNameAsLibIdentifier = options.useLibraryNameAsLibIdentifier ?? false;
 		this.useLibraryUuid = options.useLibraryUuid ?? false;
+		this.schema = (options.schema ?? {}) as Record<string, ConfigFieldSchema | undefined>;
+		this.defaults = (options.defaults ?? {}) as ConfigData;
+		this.invalid = options.invalid ?? 'report';
+		this.onInvalid =
+			options.onInvalid ??
+			((issue) => console.warn('[eagle-cooltils] Invalid config value:', issue.message));
 	}
 
 	// --------------------------------------------------------------------------
@@ -355,37 +571,121 @@ export class EagleUserConfig {
 		await this.saveFile(fileData);
 	}
 
+	// --------------------------------------------------------------------------
+	// Schema
+	// --------------------------------------------------------------------------
+
+	/**
+	 * Check a single value against the schema. Returns the problem, or null.
+	 */
+	private checkValue(key: string, value: unknown): string | null {
+		const fieldSchema = this.schema[key];
+		if (!fieldSchema) return null;
+		if (typeof fieldSchema === 'function') {
+			return fieldSchema(value) ? null : `${key} failed validation`;
+		}
+		return checkJsonSchema(value, fieldSchema, key);
+	}
+
+	/**
+	 * Apply defaults and drop invalid values. Keys without schema or default pass through.
+	 */
+	private resolveSection(section: ConfigData): { data: ConfigData; issues: ConfigValidationIssue[] } {
+		const data: ConfigData = { ...section };
+		const issues: ConfigValidationIssue[] = [];
+
+		for (const key of new Set([...Object.keys(this.schema), ...Object.keys(this.defaults)])) {
+			const value = section[key];
+			if (value !== undefined) {
+				const message = this.checkValue(key, value);
+				if (message === null) continue;
+				issues.push({ key, value, message });
+			}
+
+			if (this.defaults[key] !== undefined) {
+				data[key] = structuredClone(this.defaults[key]);
+			} else {
+				Reflect.deleteProperty(data, key);
+			}
+		}
+
+		return { data, issues };
+	}
+
+	/**
+	 * Read this config's section with defaults applied, reporting (and optionally resetting) invalid values.
+	 */
+	private async readResolved(): Promise<ConfigData> {
+		const section = await this.getSection();
+		const { data, issues } = this.resolveSection(section);
+		if (issues.length === 0) return data;
+
+		issues.forEach((issue) => this.onInvalid(issue));
+
+		if (this.invalid === 'reset') {
+			const repaired = { ...section };
+			for (const { key } of issues) {
+				if (this.defaults[key] !== undefined) {
+					repaired[key] = structuredClone(this.defaults[key]);
+				} else {
+					Reflect.deleteProperty(repaired, key);
+				}
+			}
+			await this.saveSection(repaired);
+		}
+
+		return data;
+	}
+
+	private assertValid(values: ConfigData): void {
+		const issues: ConfigValidationIssue[] = [];
+		for (const [key, value] of Object.entries(values)) {
+			const message = this.checkValue(key, value);
+			if (message !== null) issues.push({ key, value, message });
+		}
+		if (issues.length > 0) throw new ConfigValidationError(issues);
+	}
+
 	// --------------------------------------------------------------------------
 	// Public API
 	// --------------------------------------------------------------------------
 
 	/**
-	 * Get the entire config data for this scope.
+	 * Get the entire config data for this scope, with defaults applied.
 	 */
-	async getAll(): Promise<ConfigData> {
-		return this.getSection();
+	async getAll(): Promise<ConfigResolvedData<TSchema, TDefaults>> {
+		return (await this.readResolved()) as ConfigResolvedData<TSchema, TDefaults>;
 	}
 
 	/**
-	 * Get a specific config value.
+	 * Get a specific config value (or its default).
+	 * Typed by the schema; `get<T>(key)` still asserts a type for untyped configs.
 	 */
-	async get<T = unknown>(key: string): Promise<T | undefined> {
-		const data = await this.getSection();
-		return data[key] as T | undefined;
+	async get<T = never, K extends keyof TSchema & string = keyof TSchema & string>(
+		key: K
+	): Promise<ConfigValue<TSchema, TDefaults, K, T>> {
+		const data = await this.readResolved();
+		return data[key] as ConfigValue<TSchema, TDefaults, K, T>;
 	}
 
 	/**
 	 * Get a config value with a default fallback.
 	 */
-	async getOrDefault<T>(key: string, defaultValue: T): Promise<T> {
-		const value = await this.get<T>(key);
+	async getOrDefault<T>(key: keyof TSchema & string, defaultValue: T): Promise<T> {
+		const data = await this.readResolved();
+		const value = data[key] as T | undefined;
 		return value !== undefined ? value : defaultValue;
 	}
 
 	/**
 	 * Set a specific config value.
+	 * @throws ConfigValidationError if the value does not match the schema
 	 */
-	async set<T = unknown>(key: string, value: T): Promise<void> {
+	async set<T = never, K extends keyof TSchema & string = keyof TSchema & string>(
+		key: K,
+		value: [T] extends [never] ? TSchema[K] : T
+	): Promise<void> {
+		this.assertValid({ [key]: value });
 		const data = await this.getSection();
 		data[key] = value;
 		await this.saveSection(data);
@@ -393,8 +693,10 @@ export class EagleUserConfig {
 
 	/**
 	 * Set multiple config values at once.
+	 * @throws ConfigValidationError if any value does not match the schema
 	 */
-	async setMany(values: ConfigData): Promise<void> {
+	async setMany(values: Partial<TSchema>): Promise<void> {
+		this.assertValid(values as ConfigData);
 		const data = await this.getSection();
 		Object.assign(data, values);
 		await this.saveSection(data);
@@ -436,6 +738,75 @@ export class EagleUserConfig {
 		return Object.keys(data);
 	}
 
+	/**
+	 * List stored values that do not match the schema, without reporting or resetting them.
+	 */
+	async validate(): Promise<ConfigValidationIssue[]> {
+		const section = await this.getSection();
+		return this.resolveSection(section).issues;
+	}
+
+	// --------------------------------------------------------------------------
+	// Change Notifications
+	// --------------------------------------------------------------------------
+
+	/**
+	 * Watch this scope for changes on disk, e.g. from another plugin or window.
+	 * With a key, only changes to that value are reported. Values have defaults applied.
+	 * `librarybased` configs take a fresh baseline on library switch instead of
+	 * reporting the other library's section as a change.
+	 *
+	 * @example
+	 * ```ts
+	 * const unsubscribe = config.watch('theme', (event) => {
+	 *   applyTheme(event.current);
+	 * });
+	 * ```
+	 */
+	watch(
+		callback: (event: ConfigChangeEvent<ConfigResolvedData<TSchema, TDefaults>>) => void,
+		options?: ConfigWatchOptions
+	): Unsubscribe;
+	watch<K extends keyof TSchema & string>(
+		key: K,
+		callback: (event: ConfigChangeEvent<ConfigResolvedValue<TSchema, TDefaults, K>>) => void,
+		options?: ConfigWatchOptions
+	): Unsubscribe;
+	watch(
+		keyOrCallback: string | ((event: ConfigChangeEvent<never>) => void),
+		callbackOrOptions?: ((event: ConfigChangeEvent<never>) => void) | ConfigWatchOptions,
+		maybeOptions?: ConfigWatchOptions
+	): Unsubscribe {
+		const hasKey = typeof keyOrCallback === 'string';
+		const key = hasKey ? keyOrCallback : undefined;
+		const callback = (hasKey ? callbackOrOptions : keyOrCallback) as (
+			event: ConfigChangeEvent<unknown>
+		) => void;
+		const options = (hasKey ? maybeOptions : callbackOrOptions) as ConfigWatchOptions | undefined;
+		const filePath = this.getConfigFilePath();
+		if (options?.backend === 'watch') {
+			// fs.watch needs an existing directory; it is created synchronously so the watcher can start now
+			mkdirSync(path.dirname(filePath), { recursive: true });
+		}
+
+		return onStateChange<unknown>(
+			{
+				label: 'Config',
+				read: async () => {
+					// Defaults applied, but invalid values are only reported by get/getAll
+					const { data } = this.resolveSection(await this.getSection());
+					return key === undefined ? data : data[key];
+				},
+				equals: (previous, current) => JSON.stringify(previous) === JSON.stringify(current),
+				watchTarget: () => path.dirname(filePath),
+				watchFile: path.basename(filePath),
+				libraryScoped: this.type === 'librarybased',
+			},
+			(event) => callback({ key, ...event }),
+			options
+		);
+	}
+
 	// --------------------------------------------------------------------------
 	// Utility
 	// --------------------------------------------------------------------------
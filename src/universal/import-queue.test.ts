@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { EagleImportQueue } from './import-queue';
+import type { EagleImportInput, EagleImportQueueOptions, EagleImportReport } from './import-queue';
+import { EagleWebApi } from './webapi';
+
+interface SentRequest {
+  endpoint: string;
+  body: { items: { url?: string; path?: string; folderId?: string }[]; folderId?: string };
+}
+
+/**
+ * Queue on an API whose fetch records every request. Requests containing an item
+ * named `fail*` get a 500 reply; everything else succeeds.
+ */
+function createQueue(options: EagleImportQueueOptions = {}) {
+  const requests: SentRequest[] = [];
+  const fetchImpl: typeof fetch = async (input, init) => {
+    const body = JSON.parse(String(init?.body)) as SentRequest['body'];
+    requests.push({ endpoint: new URL(String(input)).pathname.replace(/^\/api\//, ''), body });
+    const failed = JSON.stringify(body).includes('"name":"fail');
+    return new Response(
+      JSON.stringify(
+        failed ? { status: 'error', message: 'Import failed' } : { status: 'success' }
+      ),
+      { status: failed ? 500 : 200 }
+    );
+  };
+  const api = new EagleWebApi({ token: 't', fetch: fetchImpl });
+  const queue = new EagleImportQueue(api, { requestsPerSecond: 0, ...options });
+  return { queue, requests };
+}
+
+function url(name: string, folderId?: string): EagleImportInput {
+  const input: EagleImportInput = { url: `https://example.com/${name}.png`, name };
+  if (folderId) input.folderId = folderId;
+  return input;
+}
+
+describe('EagleImportQueue', () => {
+  it('batches inputs by kind and folder and moves folderId to the request', async () => {
+    const { queue, requests } = createQueue({ chunkSize: 2, concurrency: 1 });
+
+    const report = await queue.run([
+      url('a'),
+      url('b', 'F1'),
+      url('c'),
+      url('d'),
+      { path: '/tmp/e.png', name: 'e' },
+    ]);
+
+    expect(report).toMatchObject({ done: 5, failed: 0, pending: 0 });
+    expect(requests.map((request) => request.endpoint)).toEqual([
+      'item/addFromURLs',
+      'item/addFromURLs',
+      'item/addFromURLs',
+      'item/addFromPaths',
+    ]);
+    expect(requests[0]?.body.items.map((item) => item.url)).toEqual([
+      'https://example.com/a.png',
+      'https://example.com/c.png',
+    ]);
+    expect(requests[1]?.body).toMatchObject({ folderId: 'F1', items: [{ name: 'b' }] });
+    expect(requests[1]?.body.items[0]).not.toHaveProperty('folderId');
+    expect(requests[2]?.body).not.toHaveProperty('folderId');
+  });
+
+  it('marks entries of a failed request and keeps importing the rest', async () => {
+    const { queue, requests } = createQueue({ chunkSize: 1 });
+
+    const report = await queue.run([url('a'), url('fail-b'), url('c')]);
+
+    expect(requests).toHaveLength(3);
+    expect(report).toMatchObject({ done: 2, failed: 1, pending: 0 });
+    expect(report.entries[1]).toMatchObject({
+      key: 'https://example.com/fail-b.png',
+      status: 'failed',
+      attempts: 1,
+      error: expect.stringContaining('Import failed') as unknown,
+    });
+  });
+
+  it('resumes a report, skipping done entries and counting attempts', async () => {
+    const first = createQueue({ chunkSize: 1 });
+    const report = await first.queue.run([url('a'), url('fail-b')]);
+    expect(report).toMatchObject({ done: 1, failed: 1 });
+
+    // Same key (url), but a name the fake API accepts this time
+    const second = createQueue();
+    const next = await second.queue.run([url('a'), { ...url('fail-b'), name: 'b' }], {
+      resume: report,
+    });
+
+    expect(second.requests).toHaveLength(1);
+    expect(second.requests[0]?.body.items.map((item) => item.url)).toEqual([
+      'https://example.com/fail-b.png',
+    ]);
+    expect(next).toMatchObject({ done: 2, failed: 0, pending: 0 });
+    expect(next.entries[1]).toMatchObject({ attempts: 2, status: 'done' });
+    expect(next.entries[1]).not.toHaveProperty('error');
+  });
+
+  it('reports progress and checkpoints a snapshot after every request', async () => {
+    const checkpoints: EagleImportReport[] = [];
+    const progress: number[] = [];
+    const { queue } = createQueue({
+      chunkSize: 1,
+      concurrency: 1,
+      onProgress: (event) => progress.push(event.done),
+      onCheckpoint: (report) => {
+        checkpoints.push(report);
+      },
+    });
+
+    const report = await queue.run([url('a'), url('b')]);
+
+    expect(progress).toEqual([1, 2]);
+    expect(checkpoints.map((checkpoint) => checkpoint.pending)).toEqual([1, 0]);
+    expect(checkpoints[1]?.entries).not.toBe(report.entries);
+  });
+
+  it('stops when onCheckpoint throws and records checkpointError', async () => {
+    const { queue, requests } = createQueue({
+      chunkSize: 1,
+      concurrency: 1,
+      onCheckpoint: () => {
+        throw new Error('Disk full');
+      },
+    });
+
+    const report = await queue.run([url('a'), url('b'), url('c')]);
+
+    expect(requests).toHaveLength(1);
+    expect(report).toMatchObject({ done: 1, pending: 2, checkpointError: 'Disk full' });
+  });
+
+  it('leaves unsent entries pending when the signal aborts', async () => {
+    const controller = new AbortController();
+    const { queue, requests } = createQueue({
+      chunkSize: 1,
+      concurrency: 1,
+      requestsPerSecond: 20,
+      requestOptions: { signal: controller.signal },
+      onProgress: () => controller.abort(),
+    });
+
+    const report = await queue.run([url('a'), url('b'), url('c')]);
+
+    expect(requests).toHaveLength(1);
+    expect(report).toMatchObject({ done: 1, failed: 0, pending: 2 });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Rate-limited bulk import on top of `EagleWebApi.Item`.
+ * Items are batched into `item/addFromURLs` / `item/addFromPaths` calls; reports are resumable.
+ * @module
+ */
+
+import type {
+  EagleWebApi,
+  EagleWebApiAddFromPathParams,
+  EagleWebApiAddFromPathsParams,
+  EagleWebApiAddFromUrlParams,
+  EagleWebApiAddFromUrlsParams,
+  EagleWebApiRequestOptions,
+} from './webapi';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EagleImportInput = EagleWebApiAddFromUrlParams | EagleWebApiAddFromPathParams;
+
+export type EagleImportStatus = 'pending' | 'done' | 'failed';
+
+export interface EagleImportEntry {
+  /** Stable key used to match entries when resuming (default: url or path) */
+  key: string;
+  input: EagleImportInput;
+  status: EagleImportStatus;
+  /** Number of requests that included this entry */
+  attempts: number;
+  /** Error message of the last failed attempt */
+  error?: string;
+}
+
+/**
+ * Per-item outcome of an import run. Plain JSON, so it can be persisted
+ * from `onCheckpoint` and passed back as `resume` after a crash.
+ */
+export interface EagleImportReport {
+  entries: EagleImportEntry[];
+  done: number;
+  failed: number;
+  pending: number;
+  /** Error thrown by `onCheckpoint`; the run stopped there and unsent entries stay `pending` */
+  checkpointError?: string;
+}
+
+export interface EagleImportProgress {
+  done: number;
+  failed: number;
+  total: number;
+  /** Entries settled by the request that triggered this event */
+  settled: EagleImportEntry[];
+}
+
+export interface EagleImportQueueOptions {
+  /** Max items per `addFromURLs` / `addFromPaths` call (default: 50) */
+  chunkSize?: number;
+  /** Max requests in flight (default: 2) */
+  concurrency?: number;
+  /** Max requests started per second, 0 = unlimited (default: 5) */
+  requestsPerSecond?: number;
+  /**
+   * Options forwarded to every request (timeout, signal). Requests are never retried,
+   * since a replayed batch can import its items twice; resume the report instead.
+   */
+  requestOptions?: Omit<EagleWebApiRequestOptions, 'retries' | 'idempotent'>;
+  /** Derives the resume key of an input (default: url or path) */
+  key?: (input: EagleImportInput) => string;
+  onProgress?: (event: EagleImportProgress) => void;
+  /**
+   * Called with a snapshot of the report after every request. If it throws, no further
+   * requests are started and the error is recorded as `checkpointError` in the report.
+   */
+  onCheckpoint?: (report: EagleImportReport) => void | Promise<void>;
+}
+
+export interface EagleImportRunOptions {
+  /** Previous report; entries already `done` are skipped */
+  resume?: EagleImportReport;
+}
+
+interface ImportBatch {
+  kind: 'url' | 'path';
+  folderId: string | undefined;
+  entries: EagleImportEntry[];
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * Imports many items without flooding Eagle.
+ *
+ * @example
+ * const queue = new EagleImportQueue(api, { requestsPerSecond: 2, onCheckpoint: save });
+ * const report = await queue.run(urls.map((url) => ({ url, name: basename(url) })));
+ */
+export class EagleImportQueue {
+  readonly client: EagleWebApi;
+  private readonly options: EagleImportQueueOptions;
+  private nextSlot = 0;
+
+  constructor(client: EagleWebApi, options: EagleImportQueueOptions = {}) {
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * Imports `inputs` and resolves with the per-item report.
+   * A failed request marks its entries `failed` and the run continues.
+   * When the request signal aborts, unsent and in-flight entries stay `pending`.
+   */
+  async run(
+    inputs: EagleImportInput[],
+    options: EagleImportRunOptions = {}
+  ): Promise<EagleImportReport> {
+    const keyOf = this.options.key ?? defaultKey;
+    const previous = new Map(options.resume?.entries.map((entry) => [entry.key, entry]));
+
+    const entries = inputs.map((input): EagleImportEntry => {
+      const key = keyOf(input);
+      const before = previous.get(key);
+      return before
+        ? { ...before, input, status: before.status === 'done' ? 'done' : 'pending' }
+        : { key, input, status: 'pending', attempts: 0 };
+    });
+
+    const batches = this.createBatches(entries.filter((entry) => entry.status === 'pending'));
+    const concurrency = Math.max(1, this.options.concurrency ?? 2);
+    const signal = this.options.requestOptions?.signal;
+
+    let index = 0;
+    let checkpointError: string | undefined;
+    const worker = async (): Promise<void> => {
+      while (!signal?.aborted && checkpointError === undefined) {
+        const batch = batches[index++];
+        if (!batch) return;
+        await this.waitForSlot(signal);
+        if (signal?.aborted || checkpointError !== undefined) return;
+        await this.send(batch);
+        try {
+          await this.settle(entries, batch.entries);
+        } catch (error) {
+          // The report can no longer be persisted, so stop instead of importing untracked items
+          checkpointError ??= errorMessage(error);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+    } catch (error) {
+      // Only an aborted rate-limit wait rejects; the report is still valid
+      if (!signal?.aborted) throw error;
+    }
+
+    const report = createReport(entries);
+    if (checkpointError !== undefined) report.checkpointError = checkpointError;
+    return report;
+  }
+
+  private createBatches(entries: EagleImportEntry[]): ImportBatch[] {
+    const chunkSize = Math.max(1, this.options.chunkSize ?? 50);
+    const batches: ImportBatch[] = [];
+    // Bulk endpoints take one folderId per call, so group items by kind and folder
+    const open = new Map<string, ImportBatch>();
+
+    for (const entry of entries) {
+      const kind = isPathInput(entry.input) ? 'path' : 'url';
+      const folderId = entry.input.folderId;
+      const groupKey = `${kind}:${folderId ?? ''}`;
+      let batch = open.get(groupKey);
+      if (!batch || batch.entries.length >= chunkSize) {
+        batch = { kind, folderId, entries: [] };
+        open.set(groupKey, batch);
+        batches.push(batch);
+      }
+      batch.entries.push(entry);
+    }
+
+    return batches;
+  }
+
+  private async send(batch: ImportBatch): Promise<void> {
+    // Failed entries are retried by resuming the report, where attempts are counted
+    const requestOptions: EagleWebApiRequestOptions = {
+      ...this.options.requestOptions,
+      retries: 0,
+    };
+    for (const entry of batch.entries) entry.attempts++;
+
+    try {
+      const items = batch.entries.map((entry) => {
+        const item: Record<string, unknown> = { ...entry.input };
+        Reflect.deleteProperty(item, 'folderId');
+        return item;
+      });
+      if (batch.kind === 'path') {
+        const params: EagleWebApiAddFromPathsParams = {
+          items: items as EagleWebApiAddFromPathsParams['items'],
+        };
+        if (batch.folderId) params.folderId = batch.folderId;
+        await this.client.item.addFromPaths(params, requestOptions);
+      } else {
+        const params: EagleWebApiAddFromUrlsParams = { items };
+        if (batch.folderId) params.folderId = batch.folderId;
+        await this.client.item.addFromUrls(params, requestOptions);
+      }
+      for (const entry of batch.entries) {
+        entry.status = 'done';
+        delete entry.error;
+      }
+    } catch (error) {
+      if (requestOptions.signal?.aborted) return;
+      const message = errorMessage(error);
+      for (const entry of batch.entries) {
+        entry.status = 'failed';
+        entry.error = message;
+      }
+    }
+  }
+
+  private async settle(entries: EagleImportEntry[], settled: EagleImportEntry[]): Promise<void> {
+    const report = createReport(entries);
+    this.options.onProgress?.({
+      done: report.done,
+      failed: report.failed,
+      total: entries.length,
+      settled,
+    });
+    await this.options.onCheckpoint?.(structuredClone(report));
+  }
+
+  private async waitForSlot(signal?: AbortSignal): Promise<void> {
+    const rps = this.options.requestsPerSecond ?? 5;
+    if (rps <= 0) return;
+
+    const now = Date.now();
+    const start = Math.max(now, this.nextSlot);
+    this.nextSlot = start + 1000 / rps;
+    if (start > now) await delay(start - now, signal);
+  }
+}
+
+function isPathInput(input: EagleImportInput): input is EagleWebApiAddFromPathParams {
+  return 'path' in input;
+}
+
+function defaultKey(input: EagleImportInput): string {
+  return isPathInput(input) ? input.path : input.url;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function createReport(entries: EagleImportEntry[]): EagleImportReport {
+  const count = (status: EagleImportStatus) =>
+    entries.filter((entry) => entry.status === status).length;
+  return { entries, done: count('done'), failed: count('failed'), pending: count('pending') };
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
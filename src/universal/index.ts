@@ -3,8 +3,30 @@
  * @module universal
  */
 
-export { EagleWebApi } from './webapi';
-export { BareLibrary, bareio } from './bareio';
+export {
+	EagleWebApi,
+	EagleApiError,
+	EagleApiNetworkError,
+	EagleApiAuthError,
+	EagleApiNotFoundError,
+	EagleApiTimeoutError,
+} from './webapi';
+export { EagleImportQueue } from './import-queue';
+export {
+	BareLibrary,
+	bareio,
+	ConcurrentModificationError,
+	LockReentryError,
+	LockTimeoutError,
+	SchemaValidationError,
+	validateLibraryMetadata,
+	validateTagsIndex,
+	validateMtimeIndex,
+	validateItemMetadata,
+	checkLibraryIntegrity,
+	diffLibraryMetadata,
+	toFilterableItem,
+} from './bareio';
 export {
 	ItemFilterBuilder,
 	RuleBuilder,
@@ -25,14 +47,41 @@ export {
 } from './filter';
 export type {
 	EagleWebApiOptions,
+	EagleWebApiRequestOptions,
 	EagleWebApiMethod,
 	EagleWebApiListParams,
+	EagleWebApiListAllParams,
 	EagleWebApiAddBookmarkParams,
 	EagleWebApiAddFromUrlParams,
 	EagleWebApiAddFromPathParams,
 	EagleWebApiAddFromUrlsParams,
+	EagleWebApiAddFromPathsParams,
+	EagleWebApiTagListParams,
+	EagleWebApiCreateTagGroupParams,
+	EagleWebApiUpdateTagGroupParams,
+	EagleWebApiApplicationInfo,
+	EagleWebApiPalette,
+	EagleWebApiItem,
+	EagleWebApiFolder,
+	EagleWebApiLibraryInfo,
+	EagleWebApiLibraryHistory,
+	EagleWebApiTag,
+	EagleWebApiTagMergeResult,
+	EagleWebApiTagGroup,
+	EagleWebApiThumbnail,
+	EagleApiErrorDetails,
 } from './webapi';
 export type {
+	EagleImportInput,
+	EagleImportStatus,
+	EagleImportEntry,
+	EagleImportReport,
+	EagleImportProgress,
+	EagleImportQueueOptions,
+	EagleImportRunOptions,
+} from './import-queue';
+export type {
+	BareLibraryOptions,
 	LibraryMetadata,
 	LibraryFolder,
 	ItemMetadata,
@@ -44,6 +93,35 @@ export type {
 	TagGroup,
 	QuickAccessEntry,
 	WriteItemOptions,
+	CreateItemOptions,
+	IterateItemsOptions,
+	RemoveItemOptions,
+	SchemaMode,
+	ValidationIssue,
+	ValidationResult,
+	ValidateOptions,
+	LibraryValidationIssue,
+	LibraryValidationReport,
+	ValidateLibraryOptions,
+	IntegrityCheckOptions,
+	IntegrityIssue,
+	IntegrityIssueKind,
+	IntegrityReport,
+	ItemIndexEntry,
+	ItemIndexOptions,
+	ItemIndexRefreshResult,
+	MetadataChange,
+	MetadataNodeKind,
+	MetadataNodeTypes,
+	MetadataAddedChange,
+	MetadataRemovedChange,
+	MetadataRenamedChange,
+	MetadataMovedChange,
+	MetadataUpdatedChange,
+	FolderChange,
+	SmartFolderChange,
+	TagGroupChange,
+	QuickAccessChange,
 } from './bareio';
 export type {
 	FilterMethod,
@@ -55,6 +133,7 @@ export type {
 } from './filter';
 export {
 	EagleUserConfig,
+	ConfigValidationError,
 	initEagleConfig,
 	createGlobalConfig,
 	createPluginGlobalConfig,
@@ -70,16 +149,55 @@ export {
 	writeLibraryUuid,
 	LIBRARY_UUID_FILENAME,
 } from './config';
-export type { ConfigType, EagleUserConfigOptions, ConfigData } from './config';
+export type {
+	ConfigType,
+	EagleUserConfigOptions,
+	ConfigData,
+	ConfigChangeEvent,
+	ConfigWatchOptions,
+	ConfigSchema,
+	ConfigFieldSchema,
+	ConfigJsonSchema,
+	ConfigJsonType,
+	ConfigValidationIssue,
+	ConfigResolvedData,
+	ConfigResolvedValue,
+} from './config';
 export {
 	onLibraryChange,
 	onItemChange,
 	onFolderChange,
 	onLibraryConfigChange,
 	onLibraryFolderChange,
+	onItemsModified,
+	onLibraryMetadataChange,
+	onStateChange,
+	pauseAll,
+	resumeAll,
+	disposeAll,
 } from './subscribe';
+export {
+	Observable,
+	observeLibrary,
+	observeItems,
+	observeFolders,
+	observeLibraryConfig,
+	observeLibraryFolders,
+	observeItemsModified,
+	observeLibraryMetadata,
+} from './observable';
 export type {
 	ChangeEvent,
+	SelectionChangeEvent,
+	SelectionCompare,
+	SelectionSubscribeOptions,
+	ItemsModifiedEvent,
+	LibraryMetadataChangeEvent,
 	SubscribeOptions,
+	SubscribeBackend,
+	ThrottleOptions,
+	StateSource,
 	Unsubscribe,
+	PlainItem,
+	PlainFolder,
 } from './subscribe';
@@ -0,0 +1,192 @@
+/**
+ * Composable adapters for subscribe.ts: a minimal observable with operators,
+ * also usable with `for await`.
+ * @module
+ */
+
+import {
+  onFolderChange,
+  onItemChange,
+  onItemsModified,
+  onLibraryChange,
+  onLibraryConfigChange,
+  onLibraryFolderChange,
+  onLibraryMetadataChange,
+  type ChangeEvent,
+  type ConfigState,
+  type ItemsModifiedEvent,
+  type LibraryFolderState,
+  type LibraryMetadataChangeEvent,
+  type LibraryState,
+  type PlainFolder,
+  type PlainItem,
+  type SelectionChangeEvent,
+  type SelectionSubscribeOptions,
+  type SubscribeOptions,
+  type Unsubscribe,
+} from './subscribe';
+
+// ============================================================================
+// Observable
+// ============================================================================
+
+/**
+ * Lazy event stream. Nothing is watched until `subscribe()` is called (or iteration
+ * starts), and every subscriber gets its own underlying subscription.
+ *
+ * @example
+ * ```ts
+ * const stop = observeItems()
+ *   .debounce(300)
+ *   .map((event) => event.current.filter((item) => item.tags.includes('todo')))
+ *   .distinctUntilChanged((a, b) => a.length === b.length)
+ *   .subscribe((items) => console.log(items.length, 'todo items selected'));
+ * ```
+ */
+export class Observable<T> implements AsyncIterable<T> {
+  constructor(private readonly producer: (next: (value: T) => void) => Unsubscribe) {}
+
+  subscribe(next: (value: T) => void): Unsubscribe {
+    let active = true;
+    const unsubscribe = this.producer((value) => {
+      if (active) next(value);
+    });
+    return () => {
+      if (!active) return;
+      active = false;
+      unsubscribe();
+    };
+  }
+
+  map<U>(project: (value: T) => U): Observable<U> {
+    return new Observable((next) => this.subscribe((value) => next(project(value))));
+  }
+
+  filter<S extends T>(predicate: (value: T) => value is S): Observable<S>;
+  filter(predicate: (value: T) => boolean): Observable<T>;
+  filter(predicate: (value: T) => boolean): Observable<T> {
+    return new Observable((next) =>
+      this.subscribe((value) => {
+        if (predicate(value)) next(value);
+      })
+    );
+  }
+
+  /** Emits the latest value once no new value arrived for `ms` milliseconds */
+  debounce(ms: number): Observable<T> {
+    return new Observable((next) => {
+      let timerId: ReturnType<typeof setTimeout> | null = null;
+      const unsubscribe = this.subscribe((value) => {
+        if (timerId) clearTimeout(timerId);
+        timerId = setTimeout(() => {
+          timerId = null;
+          next(value);
+        }, ms);
+      });
+      return () => {
+        if (timerId) clearTimeout(timerId);
+        unsubscribe();
+      };
+    });
+  }
+
+  /** Drops values equal to the previously emitted one (default: `Object.is`) */
+  distinctUntilChanged(equals: (previous: T, current: T) => boolean = Object.is): Observable<T> {
+    return new Observable((next) => {
+      let hasPrevious = false;
+      let previous: T;
+      return this.subscribe((value) => {
+        if (hasPrevious && equals(previous, value)) return;
+        hasPrevious = true;
+        previous = value;
+        next(value);
+      });
+    });
+  }
+
+  /**
+   * Subscribes when iteration starts and unsubscribes when the loop exits.
+   * Values that arrive faster than the loop consumes them are buffered.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    const buffer: T[] = [];
+    const waiting: ((result: IteratorResult<T>) => void)[] = [];
+    let unsubscribe: Unsubscribe | null = null;
+    let done = false;
+
+    const finish = (): IteratorResult<T> => {
+      done = true;
+      unsubscribe?.();
+      buffer.length = 0;
+      waiting.splice(0).forEach((resolve) => resolve({ value: undefined, done: true }));
+      return { value: undefined, done: true };
+    };
+
+    return {
+      next: () => {
+        if (done) return Promise.resolve({ value: undefined, done: true });
+        unsubscribe ??= this.subscribe((value) => {
+          const resolve = waiting.shift();
+          if (resolve) resolve({ value, done: false });
+          else buffer.push(value);
+        });
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift() as T, done: false });
+        }
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      return: () => Promise.resolve(finish()),
+    };
+  }
+}
+
+// ============================================================================
+// Subscription Factories
+// ============================================================================
+
+/** Observable version of `onLibraryChange` */
+export function observeLibrary(): Observable<ChangeEvent<LibraryState>> {
+  return new Observable((next) => onLibraryChange(next));
+}
+
+/** Observable version of `onItemChange` */
+export function observeItems(
+  options?: SelectionSubscribeOptions
+): Observable<SelectionChangeEvent<PlainItem>> {
+  return new Observable((next) => onItemChange(next, options));
+}
+
+/** Observable version of `onFolderChange` */
+export function observeFolders(
+  options?: SelectionSubscribeOptions
+): Observable<SelectionChangeEvent<PlainFolder>> {
+  return new Observable((next) => onFolderChange(next, options));
+}
+
+/** Observable version of `onLibraryConfigChange` */
+export function observeLibraryConfig(
+  options?: Omit<SubscribeOptions, 'maxEqualLookups'>
+): Observable<ChangeEvent<ConfigState>> {
+  return new Observable((next) => onLibraryConfigChange(next, options));
+}
+
+/** Observable version of `onLibraryFolderChange` */
+export function observeLibraryFolders(
+  options?: Omit<SubscribeOptions, 'maxEqualLookups'>
+): Observable<ChangeEvent<LibraryFolderState>> {
+  return new Observable((next) => onLibraryFolderChange(next, options));
+}
+
+/** Observable version of `onItemsModified` */
+export function observeItemsModified(
+  options?: Omit<SubscribeOptions, 'maxEqualLookups'>
+): Observable<ItemsModifiedEvent> {
+  return new Observable((next) => onItemsModified(next, options));
+}
+
+/** Observable version of `onLibraryMetadataChange` */
+export function observeLibraryMetadata(
+  options?: Omit<SubscribeOptions, 'maxEqualLookups'>
+): Observable<LibraryMetadataChangeEvent> {
+  return new Observable((next) => onLibraryMetadataChange(next, options));
+}
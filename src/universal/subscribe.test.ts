@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeEagle } from '../testing/fake-eagle';
+import { disposeAll, onItemChange } from './subscribe';
+import type { PlainItem, SelectionChangeEvent } from './subscribe';
+
+const INTERVAL = 100;
+
+let fake: FakeEagle;
+let restore: () => void;
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  fake = await FakeEagle.create({
+    library: {
+      path: '/mock/Mock.library',
+      items: [{ id: 'A' }, { id: 'B' }, { id: 'C' }],
+    },
+  });
+  restore = fake.install();
+});
+
+afterEach(() => {
+  disposeAll();
+  restore();
+  vi.useRealTimers();
+});
+
+/** Subscribes to item selection and waits for the baseline check */
+async function watchSelection(options: Parameters<typeof onItemChange>[1] = {}) {
+  const events: SelectionChangeEvent<PlainItem>[] = [];
+  onItemChange((event) => events.push(event), { interval: INTERVAL, ...options });
+  await vi.advanceTimersByTimeAsync(0);
+  return events;
+}
+
+/** Changes the selection and lets one poll see it */
+async function select(ids: string[]): Promise<void> {
+  fake.selectItems(ids);
+  await vi.advanceTimersByTimeAsync(INTERVAL);
+}
+
+function ids(event: SelectionChangeEvent<PlainItem> | undefined) {
+  return event && { added: event.added, removed: event.removed, modified: event.modified };
+}
+
+describe('item selection diffing', () => {
+  it('reports added and removed IDs', async () => {
+    fake.selectItems(['A', 'B']);
+    const events = await watchSelection();
+
+    await select(['B', 'C']);
+
+    expect(events).toHaveLength(1);
+    expect(ids(events[0])).toEqual({ added: ['C'], removed: ['A'], modified: [] });
+    expect(events[0]?.previous.map((item) => item.id)).toEqual(['A', 'B']);
+    expect(events[0]?.current.map((item) => item.id)).toEqual(['B', 'C']);
+  });
+
+  it('treats reordering as a change only with ordered comparison', async () => {
+    fake.selectItems(['A', 'B']);
+    const ordered = await watchSelection();
+    const unordered = await watchSelection({ compare: 'unordered' });
+
+    await select(['B', 'A']);
+
+    expect(ids(ordered[0])).toEqual({ added: [], removed: [], modified: [] });
+    expect(unordered).toEqual([]);
+  });
+
+  it('reports edits to items that stay selected with detectModifications', async () => {
+    fake.selectItems(['A', 'B']);
+    const plain = await watchSelection();
+    const detecting = await watchSelection({ detectModifications: true });
+
+    const item = fake.state.items.get('A');
+    if (item) item.annotation = 'edited';
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(plain).toEqual([]);
+    expect(ids(detecting[0])).toEqual({ added: [], removed: [], modified: ['A'] });
+  });
+});
+
+describe('throttled selection events', () => {
+  it('merges suppressed events into one trailing call', async () => {
+    const events = await watchSelection({ throttle: { wait: INTERVAL * 5 } });
+
+    await select(['A']);
+    await select(['A', 'B']);
+    await select(['B', 'C']);
+    expect(events).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(INTERVAL * 5);
+
+    expect(events).toHaveLength(2);
+    expect(ids(events[1])).toEqual({ added: ['B', 'C'], removed: ['A'], modified: [] });
+    expect(events[1]?.previous.map((item) => item.id)).toEqual(['A']);
+    expect(events[1]?.current.map((item) => item.id)).toEqual(['B', 'C']);
+  });
+
+  it('drops the trailing call when suppressed events cancel out', async () => {
+    const events = await watchSelection({ throttle: { wait: INTERVAL * 5 } });
+
+    await select(['A']);
+    await select(['A', 'B']);
+    await select(['A']);
+    await vi.advanceTimersByTimeAsync(INTERVAL * 5);
+
+    expect(events).toHaveLength(1);
+    expect(ids(events[0])).toEqual({ added: ['A'], removed: [], modified: [] });
+  });
+
+  it('keeps modifications of items selected on both ends of the window', async () => {
+    fake.selectItems(['A']);
+    const events = await watchSelection({
+      detectModifications: true,
+      throttle: { wait: INTERVAL * 5, leading: false },
+    });
+
+    const item = fake.state.items.get('A');
+    if (item) item.annotation = 'edited';
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    await select(['A', 'B']);
+    expect(events).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(INTERVAL * 5);
+
+    expect(events).toHaveLength(1);
+    expect(ids(events[0])).toEqual({ added: ['B'], removed: [], modified: ['A'] });
+  });
+});
@@ -4,7 +4,7 @@
  * @module
  */
 
-import { promises as fs } from 'node:fs';
+import { promises as fs, watch, type FSWatcher } from 'node:fs';
 import path from 'node:path';
 import {
   type PlainItem,
@@ -16,16 +16,60 @@ import {
   extractFolder,
   getLibraryState,
 } from './models';
+import { BareLibraryCore } from './bareio/core';
+import { diffLibraryMetadata, type MetadataChange } from './bareio/diff';
+import type { LibraryMetadata } from './bareio/types';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * How file-based subscriptions detect changes:
+ * - `poll`: `fs.stat` every `interval` ms
+ * - `watch`: `fs.watch` on the library directory, falling back to polling if watching fails
+ */
+export type SubscribeBackend = 'poll' | 'watch';
+
+/**
+ * Limits how often a subscriber is called. Events suppressed inside the window are
+ * merged into one event (first `previous`, latest `current`, combined IDs), which
+ * `trailing` delivers when the window ends.
+ */
+export interface ThrottleOptions {
+  /** Minimum time between two calls, in ms */
+  wait: number;
+  /** Call immediately for the first event of a burst (default: true) */
+  leading?: boolean;
+  /** Call with the merged suppressed events when the window ends (default: true) */
+  trailing?: boolean;
+}
+
 export interface SubscribeOptions {
-  /** Check interval in milliseconds (default: 500) */
+  /** Check interval in milliseconds, honoured per subscriber (default: 500) */
   interval?: number;
   /** Maximum IDs to compare for equality. -1 = all (default: -1) */
   maxEqualLookups?: number;
+  /** Change detection for file-based subscriptions (default: 'poll') */
+  backend?: SubscribeBackend;
+  /** Quiet period before a burst of fs.watch events triggers a check, in ms (default: 50) */
+  debounce?: number;
+  /** Throttle this subscriber's callback (default: none) */
+  throttle?: ThrottleOptions;
+}
+
+/**
+ * How selection subscriptions decide that the selection changed:
+ * - `ordered`: same IDs in the same order (reordering counts as a change)
+ * - `unordered`: same set of IDs
+ */
+export type SelectionCompare = 'ordered' | 'unordered';
+
+export interface SelectionSubscribeOptions extends Omit<SubscribeOptions, 'backend' | 'debounce'> {
+  /** Comparison mode; `maxEqualLookups` only applies to `ordered` (default: 'ordered') */
+  compare?: SelectionCompare;
+  /** Also fire when an item/folder that stays selected is edited (default: false) */
+  detectModifications?: boolean;
 }
 
 export interface ChangeEvent<T> {
@@ -37,27 +81,331 @@ export interface ChangeEvent<T> {
   timestamp: number;
 }
 
+export interface SelectionChangeEvent<T> extends ChangeEvent<T[]> {
+  /** IDs that joined the selection */
+  added: string[];
+  /** IDs that left the selection */
+  removed: string[];
+  /** IDs that stayed selected but were edited (only with `detectModifications`) */
+  modified: string[];
+}
+
+export interface ItemsModifiedEvent {
+  /** IDs of items that appeared since the last check */
+  added: string[];
+  /** IDs of items that disappeared (deleted or moved to trash) */
+  removed: string[];
+  /** IDs of items whose modification time changed */
+  modified: string[];
+  /** Snapshots of the added and modified items */
+  items: PlainItem[];
+  /** Timestamp of change detection */
+  timestamp: number;
+}
+
+export interface LibraryMetadataChangeEvent {
+  /** Structural changes to folders, smart folders, tag groups and quick access */
+  changes: MetadataChange[];
+  /** Previous metadata.json content */
+  previous: LibraryMetadata;
+  /** Current metadata.json content */
+  current: LibraryMetadata;
+  /** Timestamp of change detection */
+  timestamp: number;
+}
+
 export type Unsubscribe = () => void;
 
+/**
+ * Custom state polled by the subscription system, e.g. a config file section.
+ * Paused, resumed and disposed together with the built-in subscriptions.
+ */
+export interface StateSource<T> {
+  /** Used in error logs */
+  label: string;
+  read: () => Promise<T>;
+  equals: (previous: T, current: T) => boolean;
+  /** Directory watched with `backend: 'watch'` (default: the library directory) */
+  watchTarget?: () => string;
+  /** File in `watchTarget` whose changes trigger a check (default: any) */
+  watchFile?: string;
+  /** Re-read a fresh baseline instead of reporting a change on library switch (default: true) */
+  libraryScoped?: boolean;
+}
+
 type Callback<T> = (event: ChangeEvent<T>) => void;
 
+/** Combines two consecutive events into one; null when they cancel out */
+type MergeEvents<TEvent> = (earlier: TEvent, later: TEvent) => TEvent | null;
+
 // Re-export model types for convenience
-export type { LibraryState, ConfigState, LibraryFolderState } from './models';
+export type {
+  LibraryState,
+  ConfigState,
+  LibraryFolderState,
+  PlainItem,
+  PlainFolder,
+} from './models';
 
 // ============================================================================
 // Subscription Manager (Singleton)
 // ============================================================================
 
-interface WatcherEntry<T> {
-  callback: Callback<T>;
+interface WatcherEntry<TEvent> {
+  /** Throttled, error-isolated subscriber callback */
+  callback: (event: TEvent) => void;
   interval: number;
+  backend: SubscribeBackend;
+  debounce: number;
+  /** Drops a pending trailing throttle call */
+  cancel: () => void;
+}
+
+interface SelectionEntry<T> extends WatcherEntry<SelectionChangeEvent<T>> {
   maxEqualLookups: number;
+  compare: SelectionCompare;
+  detectModifications: boolean;
 }
 
-interface WatcherState<TCallback, TInternal> {
-  entries: Set<WatcherEntry<TCallback>>;
+/** Subscribers that share a timer and a baseline state */
+interface WatcherGroup<TEntry, TState> {
+  entries: Set<TEntry>;
+  /** Poll interval of a `poll` group; null for the `watch` group */
+  interval: number | null;
   timerId: ReturnType<typeof setInterval> | null;
-  previous: TInternal[] | null;
+  /** Interval the running timer was created with */
+  timerInterval: number | null;
+  previous: TState | null;
+}
+
+interface ChangeWatcherOptions<TEntry, TState> {
+  /** Reads the current state; may return `previous` to signal "unchanged" without a full read */
+  read: (previous: TState | null) => Promise<TState>;
+  /** Delivers events for the change from `previous` to `current` */
+  notify: (entries: Set<TEntry>, previous: TState, current: TState) => void | Promise<void>;
+  /** File in the watched directory whose changes wake `watch` subscribers (default: any) */
+  watchFile?: string;
+  /** Directory watched for `watch` subscribers (default: the library directory) */
+  watchTarget?: () => string;
+  /** Forget baselines when the library switches (default: true) */
+  libraryScoped?: boolean;
+  /** Used in error logs, e.g. 'Item selection' */
+  label: string;
+  isPaused: () => boolean;
+}
+
+const WATCH_GROUP = 'watch';
+
+/** The part of a ChangeWatcher the manager drives without knowing its entry/state types */
+interface ManagedWatcher {
+  readonly size: number;
+  sync(): void;
+  stop(): void;
+  reset(): void;
+  clear(): void;
+}
+
+/**
+ * Debounced fs.watch on a directory. Marks itself `failed` instead of throwing,
+ * so the owner can fall back to polling.
+ */
+class FsWatchTrigger {
+  failed = false;
+  private watcher: FSWatcher | null = null;
+  private target: string | null = null;
+  private debounceTimerId: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly filter: (filename: string | null) => boolean,
+    private readonly onChange: () => void,
+    private readonly onFail: () => void
+  ) {}
+
+  get active(): boolean {
+    return this.watcher !== null;
+  }
+
+  /** Returns true if a new watcher was started */
+  start(target: string, debounce: number): boolean {
+    if (this.failed || (this.watcher && this.target === target)) return false;
+    this.stop();
+
+    try {
+      this.watcher = watch(target, { persistent: false }, (_event, filename) => {
+        if (this.filter(filename)) this.schedule(debounce);
+      });
+      this.watcher.on('error', e => this.fail(e));
+      this.target = target;
+      return true;
+    } catch (e) {
+      this.fail(e);
+      return false;
+    }
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.target = null;
+    if (this.debounceTimerId) {
+      clearTimeout(this.debounceTimerId);
+      this.debounceTimerId = null;
+    }
+  }
+
+  /** Stops watching and forgets a previous failure (e.g. after a library switch) */
+  reset(): void {
+    this.stop();
+    this.failed = false;
+  }
+
+  private schedule(debounce: number): void {
+    if (this.debounceTimerId) clearTimeout(this.debounceTimerId);
+    this.debounceTimerId = setTimeout(() => {
+      this.debounceTimerId = null;
+      this.onChange();
+    }, debounce);
+  }
+
+  private fail(e: unknown): void {
+    console.warn('[eagle-cooltils] fs.watch failed, falling back to polling:', e);
+    this.stop();
+    this.failed = true;
+    this.onFail();
+  }
+}
+
+/**
+ * Runs one kind of change check for many subscribers.
+ * `poll` subscribers are grouped by interval; each group has its own timer and baseline,
+ * so every subscriber sees changes at its own pace. `watch` subscribers share one
+ * fs.watch trigger and poll at their smallest interval only if watching fails.
+ */
+class ChangeWatcher<TEntry extends WatcherEntry<never>, TState> implements ManagedWatcher {
+  private readonly groups = new Map<string, WatcherGroup<TEntry, TState>>();
+  private readonly trigger: FsWatchTrigger;
+
+  constructor(private readonly options: ChangeWatcherOptions<TEntry, TState>) {
+    this.trigger = new FsWatchTrigger(
+      filename =>
+        options.watchFile === undefined || filename === null || filename === options.watchFile,
+      () => {
+        const group = this.groups.get(WATCH_GROUP);
+        if (group) void this.check(group);
+      },
+      () => this.sync()
+    );
+  }
+
+  get size(): number {
+    let size = 0;
+    this.groups.forEach(group => (size += group.entries.size));
+    return size;
+  }
+
+  add(entry: TEntry): void {
+    const key = entry.backend === 'watch' ? WATCH_GROUP : `poll:${entry.interval}`;
+    let group = this.groups.get(key);
+    if (!group) {
+      group = {
+        entries: new Set(),
+        interval: entry.backend === 'watch' ? null : entry.interval,
+        timerId: null,
+        timerInterval: null,
+        previous: null,
+      };
+      this.groups.set(key, group);
+    }
+    group.entries.add(entry);
+    this.sync();
+  }
+
+  delete(entry: TEntry): void {
+    entry.cancel();
+    for (const [key, group] of this.groups) {
+      if (!group.entries.delete(entry)) continue;
+      if (group.entries.size === 0) {
+        this.stopTimer(group);
+        this.groups.delete(key);
+      }
+      break;
+    }
+    this.sync();
+  }
+
+  /** Starts, stops or re-times timers to match the current subscribers */
+  sync(): void {
+    if (!this.groups.has(WATCH_GROUP)) this.trigger.stop();
+    if (this.options.isPaused()) return;
+
+    this.groups.forEach((group, key) => {
+      let started = false;
+
+      if (key === WATCH_GROUP) {
+        const target = this.options.watchTarget?.() ?? eagle.library.path;
+        started = this.trigger.start(target, getMinDebounce(group.entries));
+      }
+
+      const interval =
+        group.interval ?? (this.trigger.failed ? getMinInterval(group.entries) : null);
+      if (group.timerInterval !== interval) {
+        this.stopTimer(group);
+        if (interval !== null) {
+          group.timerId = setInterval(() => void this.check(group), interval);
+          group.timerInterval = interval;
+          started = true;
+        }
+      }
+
+      // Establishes the baseline, or catches up after a pause
+      if (started) void this.check(group);
+    });
+  }
+
+  /** Stops timers and fs.watch but keeps subscribers and their last seen state */
+  stop(): void {
+    this.groups.forEach(group => this.stopTimer(group));
+    this.trigger.stop();
+  }
+
+  /** Forgets all baselines and re-targets fs.watch (e.g. after a library switch) */
+  reset(): void {
+    if (this.options.libraryScoped === false) return;
+    this.groups.forEach(group => (group.previous = null));
+    this.trigger.reset();
+    this.sync();
+  }
+
+  /** Removes every subscriber */
+  clear(): void {
+    this.stop();
+    this.groups.forEach(group => group.entries.forEach(entry => entry.cancel()));
+    this.groups.clear();
+    this.trigger.reset();
+  }
+
+  private stopTimer(group: WatcherGroup<TEntry, TState>): void {
+    if (group.timerId) clearInterval(group.timerId);
+    group.timerId = null;
+    group.timerInterval = null;
+  }
+
+  private async check(group: WatcherGroup<TEntry, TState>): Promise<void> {
+    try {
+      const previous = group.previous;
+      const current = await this.options.read(previous);
+
+      // Another check or a library switch replaced the baseline while reading
+      if (group.previous !== previous) return;
+      group.previous = current;
+
+      if (previous !== null && current !== previous) {
+        await this.options.notify(group.entries, previous, current);
+      }
+    } catch (e) {
+      console.error(`[eagle-cooltils] ${this.options.label} check error:`, e);
+    }
+  }
 }
 
 class SubscriptionManager {
@@ -67,18 +415,164 @@ class SubscriptionManager {
   private libraryTimerId: ReturnType<typeof setInterval> | null = null;
   private libraryCallbacks = new Set<Callback<LibraryState>>();
 
-  private itemWatchers: WatcherState<Item[], PlainItem> = { entries: new Set(), timerId: null, previous: null };
-  private folderWatchers: WatcherState<Folder[], PlainFolder> = { entries: new Set(), timerId: null, previous: null };
-  
-  // Config uses a simpler state (single value, not array)
-  private configPrevious: ConfigState | null = null;
-  private configEntries = new Set<WatcherEntry<ConfigState>>();
-  private configTimerId: ReturnType<typeof setInterval> | null = null;
+  private itemWatcher = new ChangeWatcher<SelectionEntry<PlainItem>, PlainItem[]>({
+    label: 'Item selection',
+    read: async () => {
+      const selected = await eagle.item.getSelected();
+      // Use shared extractItem function (handles private fields)
+      return selected.map(item => extractItem(item));
+    },
+    notify: (entries, previous, current) => {
+      // Check each subscriber with their own comparison options
+      entries.forEach(entry => {
+        const event = diffSelection(previous, current, entry, fingerprintItem);
+        if (event) entry.callback(event);
+      });
+    },
+    isPaused: () => this.paused,
+  });
 
-  // Library folder structure change detection
-  private libraryFolderPrevious: LibraryFolderState | null = null;
-  private libraryFolderEntries = new Set<WatcherEntry<LibraryFolderState>>();
-  private libraryFolderTimerId: ReturnType<typeof setInterval> | null = null;
+  private folderWatcher = new ChangeWatcher<SelectionEntry<PlainFolder>, PlainFolder[]>({
+    label: 'Folder selection',
+    read: async () => {
+      const selected = await eagle.folder.getSelected();
+      // Use shared extractFolder function (handles private fields)
+      return selected.map(folder => extractFolder(folder));
+    },
+    notify: (entries, previous, current) => {
+      entries.forEach(entry => {
+        const event = diffSelection(previous, current, entry, fingerprintFolder);
+        if (event) entry.callback(event);
+      });
+    },
+    isPaused: () => this.paused,
+  });
+
+  private configWatcher = new ChangeWatcher<WatcherEntry<ChangeEvent<ConfigState>>, ConfigState>({
+    label: 'Config mtime',
+    watchFile: 'metadata.json',
+    read: async () => {
+      const stats = await fs.stat(path.join(eagle.library.path, 'metadata.json'));
+      return { mtime: stats.mtimeMs };
+    },
+    notify: (entries, previous, current) => {
+      if (current.mtime === previous.mtime) return;
+      const event: ChangeEvent<ConfigState> = { previous, current, timestamp: Date.now() };
+      entries.forEach(entry => entry.callback(event));
+    },
+    isPaused: () => this.paused,
+  });
+
+  // Library folder structure change detection (directory mtime)
+  private libraryFolderWatcher = new ChangeWatcher<
+    WatcherEntry<ChangeEvent<LibraryFolderState>>,
+    LibraryFolderState
+  >({
+    label: 'Library folder mtime',
+    read: async () => {
+      const stats = await fs.stat(eagle.library.path);
+      return { mtime: stats.mtimeMs };
+    },
+    notify: (entries, previous, current) => {
+      if (current.mtime === previous.mtime) return;
+      const event: ChangeEvent<LibraryFolderState> = { previous, current, timestamp: Date.now() };
+      entries.forEach(entry => entry.callback(event));
+    },
+    isPaused: () => this.paused,
+  });
+
+  // Item content changes (id -> modifiedAt)
+  private itemsModifiedWatcher = new ChangeWatcher<
+    WatcherEntry<ItemsModifiedEvent>,
+    { library: string; mtime: number | undefined; stamps: Map<string, number> }
+  >({
+    label: 'Items modified',
+    // Eagle rewrites mtime.json whenever an item changes, so it serves as the watch trigger
+    watchFile: 'mtime.json',
+    read: async previous => {
+      const library = eagle.library.path;
+      // Only list every item's stamp when mtime.json was written since the last check.
+      // Without a readable mtime.json (e.g. a library that isn't on disk) every check reads.
+      const stats = await fs.stat(new BareLibraryCore(library).mtimePath()).catch(() => undefined);
+      const mtime = stats?.mtimeMs;
+      if (mtime !== undefined && previous?.library === library && mtime === previous.mtime) {
+        return previous;
+      }
+      const stamps = await eagle.item.getIdsWithModifiedAt();
+      return { library, mtime, stamps: new Map(stamps.map(s => [s.id, s.modifiedAt])) };
+    },
+    notify: async (entries, previous, current) => {
+      // Library switched before the 1s library check; its reset sets a fresh baseline
+      if (previous.library !== current.library) return;
+
+      const added: string[] = [];
+      const removed: string[] = [];
+      const modified: string[] = [];
+
+      current.stamps.forEach((modifiedAt, id) => {
+        const before = previous.stamps.get(id);
+        if (before === undefined) added.push(id);
+        else if (before !== modifiedAt) modified.push(id);
+      });
+      for (const id of previous.stamps.keys()) {
+        if (!current.stamps.has(id)) removed.push(id);
+      }
+
+      if (added.length === 0 && removed.length === 0 && modified.length === 0) return;
+
+      const changed = await eagle.item.getByIds([...added, ...modified]);
+      const event: ItemsModifiedEvent = {
+        added,
+        removed,
+        modified,
+        items: changed.map(item => extractItem(item)),
+        timestamp: Date.now(),
+      };
+      entries.forEach(entry => entry.callback(event));
+    },
+    isPaused: () => this.paused,
+  });
+
+  // Library metadata structure (parsed metadata.json, re-read when its mtime changes)
+  private metadataWatcher = new ChangeWatcher<
+    WatcherEntry<LibraryMetadataChangeEvent>,
+    { library: string; mtime: number; metadata: LibraryMetadata }
+  >({
+    label: 'Library metadata',
+    watchFile: 'metadata.json',
+    read: async previous => {
+      const library = eagle.library.path;
+      const core = new BareLibraryCore(library);
+      // Only parse metadata.json when this library's file was written since the last check
+      const stats = await fs.stat(core.metadataPath());
+      if (previous?.library === library && stats.mtimeMs === previous.mtime) return previous;
+      return { library, mtime: stats.mtimeMs, metadata: await core.readLibraryMetadata() };
+    },
+    notify: (entries, previous, current) => {
+      // Library switched before the 1s library check; its reset sets a fresh baseline
+      if (previous.library !== current.library) return;
+
+      const changes = diffLibraryMetadata(previous.metadata, current.metadata);
+      if (changes.length === 0) return;
+
+      const event: LibraryMetadataChangeEvent = {
+        changes,
+        previous: previous.metadata,
+        current: current.metadata,
+        timestamp: Date.now(),
+      };
+      entries.forEach(entry => entry.callback(event));
+    },
+    isPaused: () => this.paused,
+  });
+
+  // Custom state sources (e.g. EagleUserConfig.watch), one watcher per subscription
+  private stateWatchers = new Set<ManagedWatcher>();
+
+  // Lifecycle: hidden is driven by plugin show/hide, manuallyPaused by pauseAll()/resumeAll()
+  private hookedEagle: typeof eagle | null = null;
+  private hidden = false;
+  private manuallyPaused = false;
 
   private constructor() {}
 
@@ -89,6 +583,89 @@ class SubscriptionManager {
     return SubscriptionManager.instance;
   }
 
+  private get childWatchers(): ManagedWatcher[] {
+    return [
+      this.itemWatcher,
+      this.folderWatcher,
+      this.configWatcher,
+      this.libraryFolderWatcher,
+      this.itemsModifiedWatcher,
+      this.metadataWatcher,
+      ...this.stateWatchers,
+    ];
+  }
+
+  // --------------------------------------------------------------------------
+  // Lifecycle (pause while hidden, tear down on exit)
+  // --------------------------------------------------------------------------
+
+  private get paused(): boolean {
+    return this.hidden || this.manuallyPaused;
+  }
+
+  pause(): void {
+    this.manuallyPaused = true;
+    this.stopAllWatchers();
+  }
+
+  resume(): void {
+    this.manuallyPaused = false;
+    this.startAllWatchers();
+  }
+
+  dispose(): void {
+    this.stopAllWatchers();
+    this.libraryCallbacks.clear();
+    this.libraryState = null;
+    this.childWatchers.forEach(watcher => watcher.clear());
+    this.stateWatchers.clear();
+    this.hidden = false;
+    this.manuallyPaused = false;
+  }
+
+  private hookLifecycle(): void {
+    // Eagle has no way to remove these listeners, so hook each eagle object only once
+    if (this.hookedEagle === eagle) return;
+    this.hookedEagle = eagle;
+
+    eagle.onPluginHide(() => {
+      this.hidden = true;
+      this.stopAllWatchers();
+    });
+    eagle.onPluginShow(() => {
+      this.hidden = false;
+      this.startAllWatchers();
+    });
+    eagle.onPluginBeforeExit(() => this.dispose());
+  }
+
+  /** Stops timers and fs watchers but keeps subscribers and their last seen state */
+  private stopAllWatchers(): void {
+    if (this.libraryTimerId) {
+      clearInterval(this.libraryTimerId);
+      this.libraryTimerId = null;
+    }
+    this.childWatchers.forEach(watcher => watcher.stop());
+  }
+
+  /**
+   * Restarts watchers after a pause. Each watcher's initial check diffs against the
+   * state seen before the pause, so changes made while hidden are still reported.
+   */
+  private startAllWatchers(): void {
+    if (this.paused || !this.hasSubscribers()) return;
+
+    // Catch up on a library switch first; it resets the child watchers' state
+    if (this.libraryState) this.checkLibraryChange();
+
+    this.ensureLibraryWatcher();
+    this.childWatchers.forEach(watcher => watcher.sync());
+  }
+
+  private hasSubscribers(): boolean {
+    return this.libraryCallbacks.size > 0 || this.childWatchers.some(watcher => watcher.size > 0);
+  }
+
   // --------------------------------------------------------------------------
   // Library Change (Parent Watcher - 1s fixed)
   // --------------------------------------------------------------------------
@@ -104,7 +681,8 @@ class SubscriptionManager {
   }
 
   private ensureLibraryWatcher(): void {
-    if (this.libraryTimerId) return;
+    this.hookLifecycle();
+    if (this.paused || this.libraryTimerId) return;
 
     // Initialize state
     this.libraryState = getLibraryState();
@@ -116,13 +694,7 @@ class SubscriptionManager {
 
   private maybeStopLibraryWatcher(): void {
     // Only stop if no library callbacks AND no child watchers
-    if (
-      this.libraryCallbacks.size === 0 &&
-      this.itemWatchers.entries.size === 0 &&
-      this.folderWatchers.entries.size === 0 &&
-      this.configEntries.size === 0 &&
-      this.libraryFolderEntries.size === 0
-    ) {
+    if (!this.hasSubscribers()) {
       if (this.libraryTimerId) {
         clearInterval(this.libraryTimerId);
         this.libraryTimerId = null;
@@ -159,355 +731,398 @@ class SubscriptionManager {
   }
 
   private resetChildWatchers(): void {
-    // Clear previous states to force re-evaluation
-    this.itemWatchers.previous = null;
-    this.folderWatchers.previous = null;
-    this.configPrevious = null;
-    this.libraryFolderPrevious = null;
+    // Clear previous states to force re-evaluation, and re-target fs.watch at the new library
+    this.childWatchers.forEach(watcher => watcher.reset());
   }
 
   // --------------------------------------------------------------------------
-  // Item Selection Change
+  // Child Subscriptions
   // --------------------------------------------------------------------------
 
   subscribeItems(
-    callback: Callback<Item[]>,
-    options: SubscribeOptions = {}
+    callback: (event: SelectionChangeEvent<PlainItem>) => void,
+    options: SelectionSubscribeOptions = {}
   ): Unsubscribe {
-    const entry: WatcherEntry<Item[]> = {
-      callback,
-      interval: options.interval ?? 500,
-      maxEqualLookups: options.maxEqualLookups ?? -1,
-    };
-
-    this.itemWatchers.entries.add(entry);
-    this.ensureLibraryWatcher();
-    this.ensureItemWatcher();
-
-    return () => {
-      this.itemWatchers.entries.delete(entry);
-      this.maybeStopItemWatcher();
-      this.maybeStopLibraryWatcher();
-    };
-  }
-
-  private ensureItemWatcher(): void {
-    if (this.itemWatchers.timerId) return;
-
-    // Find minimum interval
-    const minInterval = this.getMinInterval(this.itemWatchers.entries);
-
-    this.itemWatchers.timerId = setInterval(async () => {
-      await this.checkItemChange();
-    }, minInterval);
-
-    // Initial check
-    this.checkItemChange();
+    return this.subscribeChild(
+      this.itemWatcher,
+      createSelectionEntry(callback, options, 'Item change')
+    );
   }
 
-  private maybeStopItemWatcher(): void {
-    if (this.itemWatchers.entries.size === 0 && this.itemWatchers.timerId) {
-      clearInterval(this.itemWatchers.timerId);
-      this.itemWatchers.timerId = null;
-      this.itemWatchers.previous = null;
-    }
-  }
-
-  private async checkItemChange(): Promise<void> {
-    try {
-      const selected = await eagle.item.getSelected();
-      // Use shared extractItem function (handles private fields)
-      const current = selected.map(item => extractItem(item));
-
-      const previous = this.itemWatchers.previous;
-
-      if (previous !== null) {
-        // Check each subscriber with their own maxEqualLookups
-        this.itemWatchers.entries.forEach(entry => {
-          const prevIds = previous.map(i => i.id);
-          const currIds = current.map(i => i.id);
-
-          if (this.hasSelectionChanged(prevIds, currIds, entry.maxEqualLookups)) {
-            const event: ChangeEvent<Item[]> = {
-              previous: previous as unknown as Item[],
-              current: current as unknown as Item[],
-              timestamp: Date.now(),
-            };
-            try {
-              entry.callback(event);
-            } catch (e) {
-              console.error('[eagle-cooltils] Item change callback error:', e);
-            }
-          }
-        });
-      }
-
-      this.itemWatchers.previous = current;
-    } catch (e) {
-      console.error('[eagle-cooltils] Item selection check error:', e);
-    }
-  }
-
-  // --------------------------------------------------------------------------
-  // Folder Selection Change
-  // --------------------------------------------------------------------------
-
   subscribeFolders(
-    callback: Callback<Folder[]>,
-    options: SubscribeOptions = {}
+    callback: (event: SelectionChangeEvent<PlainFolder>) => void,
+    options: SelectionSubscribeOptions = {}
   ): Unsubscribe {
-    const entry: WatcherEntry<Folder[]> = {
-      callback,
-      interval: options.interval ?? 500,
-      maxEqualLookups: options.maxEqualLookups ?? -1,
-    };
-
-    this.folderWatchers.entries.add(entry);
-    this.ensureLibraryWatcher();
-    this.ensureFolderWatcher();
-
-    return () => {
-      this.folderWatchers.entries.delete(entry);
-      this.maybeStopFolderWatcher();
-      this.maybeStopLibraryWatcher();
-    };
-  }
-
-  private ensureFolderWatcher(): void {
-    if (this.folderWatchers.timerId) return;
-
-    const minInterval = this.getMinInterval(this.folderWatchers.entries);
-
-    this.folderWatchers.timerId = setInterval(async () => {
-      await this.checkFolderChange();
-    }, minInterval);
-
-    this.checkFolderChange();
+    return this.subscribeChild(
+      this.folderWatcher,
+      createSelectionEntry(callback, options, 'Folder change')
+    );
   }
 
-  private maybeStopFolderWatcher(): void {
-    if (this.folderWatchers.entries.size === 0 && this.folderWatchers.timerId) {
-      clearInterval(this.folderWatchers.timerId);
-      this.folderWatchers.timerId = null;
-      this.folderWatchers.previous = null;
-    }
-  }
-
-  private async checkFolderChange(): Promise<void> {
-    try {
-      const selected = await eagle.folder.getSelected();
-      // Use shared extractFolder function (handles private fields)
-      const current = selected.map(folder => extractFolder(folder));
-
-      const previous = this.folderWatchers.previous;
-
-      if (previous !== null) {
-        this.folderWatchers.entries.forEach(entry => {
-          const prevIds = previous.map(f => f.id);
-          const currIds = current.map(f => f.id);
-
-          if (this.hasSelectionChanged(prevIds, currIds, entry.maxEqualLookups)) {
-            const event: ChangeEvent<Folder[]> = {
-              previous: previous as unknown as Folder[],
-              current: current as unknown as Folder[],
-              timestamp: Date.now(),
-            };
-            try {
-              entry.callback(event);
-            } catch (e) {
-              console.error('[eagle-cooltils] Folder change callback error:', e);
-            }
-          }
-        });
-      }
-
-      this.folderWatchers.previous = current;
-    } catch (e) {
-      console.error('[eagle-cooltils] Folder selection check error:', e);
-    }
-  }
-
-  // --------------------------------------------------------------------------
-  // Library Config Change (mtime monitoring)
-  // --------------------------------------------------------------------------
-
   subscribeConfig(
     callback: Callback<ConfigState>,
     options: Omit<SubscribeOptions, 'maxEqualLookups'> = {}
   ): Unsubscribe {
-    const entry: WatcherEntry<ConfigState> = {
-      callback,
-      interval: options.interval ?? 500,
-      maxEqualLookups: -1, // Not used for config
-    };
-
-    this.configEntries.add(entry);
-    this.ensureLibraryWatcher();
-    this.ensureConfigWatcher();
-
-    return () => {
-      this.configEntries.delete(entry);
-      this.maybeStopConfigWatcher();
-      this.maybeStopLibraryWatcher();
-    };
+    return this.subscribeChild(
+      this.configWatcher,
+      createEntry(callback, options, 'Config change', mergeChangeEvents)
+    );
   }
 
-  private ensureConfigWatcher(): void {
-    if (this.configTimerId) return;
-
-    const minInterval = this.getMinInterval(this.configEntries);
-
-    this.configTimerId = setInterval(async () => {
-      await this.checkConfigChange();
-    }, minInterval);
-
-    this.checkConfigChange();
+  subscribeLibraryFolders(
+    callback: Callback<LibraryFolderState>,
+    options: Omit<SubscribeOptions, 'maxEqualLookups'> = {}
+  ): Unsubscribe {
+    return this.subscribeChild(
+      this.libraryFolderWatcher,
+      createEntry(callback, options, 'Library folder change', mergeChangeEvents)
+    );
   }
 
-  private maybeStopConfigWatcher(): void {
-    if (this.configEntries.size === 0 && this.configTimerId) {
-      clearInterval(this.configTimerId);
-      this.configTimerId = null;
-      this.configPrevious = null;
-    }
+  subscribeItemsModified(
+    callback: (event: ItemsModifiedEvent) => void,
+    options: Omit<SubscribeOptions, 'maxEqualLookups'> = {}
+  ): Unsubscribe {
+    return this.subscribeChild(
+      this.itemsModifiedWatcher,
+      createEntry(callback, options, 'Items modified', mergeItemsModifiedEvents)
+    );
   }
 
-  private async checkConfigChange(): Promise<void> {
-    try {
-      const libraryPath = eagle.library.path;
-      const metadataPath = path.join(libraryPath, 'metadata.json');
-
-      const stats = await fs.stat(metadataPath);
-      const current: ConfigState = { mtime: stats.mtimeMs };
-
-      const previous = this.configPrevious;
+  subscribeMetadata(
+    callback: (event: LibraryMetadataChangeEvent) => void,
+    options: Omit<SubscribeOptions, 'maxEqualLookups'> = {}
+  ): Unsubscribe {
+    return this.subscribeChild(
+      this.metadataWatcher,
+      createEntry(callback, options, 'Library metadata change', mergeMetadataEvents)
+    );
+  }
 
-      if (previous !== null && current.mtime !== previous.mtime) {
-        const event: ChangeEvent<ConfigState> = {
-          previous,
-          current,
+  subscribeState<T>(
+    source: StateSource<T>,
+    callback: Callback<T>,
+    options: Omit<SubscribeOptions, 'maxEqualLookups'> = {}
+  ): Unsubscribe {
+    const { read, equals, ...watcherOptions } = source;
+    const libraryScoped = source.libraryScoped ?? true;
+    const watcher = new ChangeWatcher<
+      WatcherEntry<ChangeEvent<T>>,
+      { library: string | null; value: T }
+    >({
+      ...watcherOptions,
+      // Tag reads with the library so a switch seen before the 1s library check is not reported.
+      // A read that spans a switch may mix both libraries, so it is tagged null: a new baseline.
+      read: async () => {
+        const library = eagle.library.path;
+        const value = await read();
+        return { library: eagle.library.path === library ? library : null, value };
+      },
+      notify: (entries, previous, current) => {
+        if (libraryScoped && (current.library === null || previous.library !== current.library)) {
+          return;
+        }
+        if (equals(previous.value, current.value)) return;
+        const event: ChangeEvent<T> = {
+          previous: previous.value,
+          current: current.value,
           timestamp: Date.now(),
         };
+        entries.forEach(entry => entry.callback(event));
+      },
+      isPaused: () => this.paused,
+    });
 
-        this.configEntries.forEach(entry => {
-          try {
-            entry.callback(event);
-          } catch (e) {
-            console.error('[eagle-cooltils] Config change callback error:', e);
-          }
-        });
-      }
+    this.stateWatchers.add(watcher);
+    const merge: MergeEvents<ChangeEvent<T>> = (earlier, later) =>
+      equals(earlier.previous, later.current) ? null : mergeChangeEvents(earlier, later);
+    const unsubscribe = this.subscribeChild(
+      watcher,
+      createEntry(callback, options, `${source.label} change`, merge)
+    );
 
-      this.configPrevious = current;
-    } catch (e) {
-      // File might not exist or be inaccessible
-      console.error('[eagle-cooltils] Config mtime check error:', e);
-    }
+    return () => {
+      unsubscribe();
+      this.stateWatchers.delete(watcher);
+    };
   }
 
-  // --------------------------------------------------------------------------
-  // Library Folder Structure Change (directory mtime monitoring)
-  // --------------------------------------------------------------------------
-
-  subscribeLibraryFolders(
-    callback: Callback<LibraryFolderState>,
-    options: Omit<SubscribeOptions, 'maxEqualLookups'> = {}
+  private subscribeChild<TEntry extends WatcherEntry<never>, TState>(
+    watcher: ChangeWatcher<TEntry, TState>,
+    entry: TEntry
   ): Unsubscribe {
-    const entry: WatcherEntry<LibraryFolderState> = {
-      callback,
-      interval: options.interval ?? 500,
-      maxEqualLookups: -1, // Not used
-    };
-
-    this.libraryFolderEntries.add(entry);
     this.ensureLibraryWatcher();
-    this.ensureLibraryFolderWatcher();
+    watcher.add(entry);
 
+    let subscribed = true;
     return () => {
-      this.libraryFolderEntries.delete(entry);
-      this.maybeStopLibraryFolderWatcher();
+      if (!subscribed) return;
+      subscribed = false;
+      watcher.delete(entry);
       this.maybeStopLibraryWatcher();
     };
   }
+}
 
-  private ensureLibraryFolderWatcher(): void {
-    if (this.libraryFolderTimerId) return;
+// ============================================================================
+// Helpers
+// ============================================================================
 
-    const minInterval = this.getMinInterval(this.libraryFolderEntries);
+function createEntry<TEvent>(
+  callback: (event: TEvent) => void,
+  options: SubscribeOptions,
+  label: string,
+  merge: MergeEvents<TEvent>
+): WatcherEntry<TEvent> {
+  const safe = (event: TEvent) => {
+    try {
+      callback(event);
+    } catch (e) {
+      console.error(`[eagle-cooltils] ${label} callback error:`, e);
+    }
+  };
+  const throttled = throttle(safe, merge, options.throttle);
+
+  return {
+    callback: throttled.call,
+    cancel: throttled.cancel,
+    interval: options.interval ?? 500,
+    backend: options.backend ?? 'poll',
+    debounce: options.debounce ?? 50,
+  };
+}
 
-    this.libraryFolderTimerId = setInterval(async () => {
-      await this.checkLibraryFolderChange();
-    }, minInterval);
+function createSelectionEntry<T extends { id: string }>(
+  callback: (event: SelectionChangeEvent<T>) => void,
+  options: SelectionSubscribeOptions,
+  label: string
+): SelectionEntry<T> {
+  const comparison = {
+    maxEqualLookups: options.maxEqualLookups ?? -1,
+    compare: options.compare ?? 'ordered',
+  };
+  const merge: MergeEvents<SelectionChangeEvent<T>> = (earlier, later) =>
+    mergeSelectionEvents(earlier, later, comparison);
+
+  return {
+    // Selection comes from the Eagle API, not files
+    ...createEntry(callback, { ...options, backend: 'poll' }, label, merge),
+    ...comparison,
+    detectModifications: options.detectModifications ?? false,
+  };
+}
 
-    this.checkLibraryFolderChange();
-  }
+/**
+ * Limits `callback` to one call per `wait` ms. Events suppressed in a window are
+ * combined with `merge`, so a trailing call reports everything since the last call.
+ */
+function throttle<T>(
+  callback: (event: T) => void,
+  merge: MergeEvents<T>,
+  options: ThrottleOptions | undefined
+): { call: (event: T) => void; cancel: () => void } {
+  if (!options) return { call: callback, cancel: () => undefined };
+
+  const { wait, leading = true, trailing = true } = options;
+  let timerId: ReturnType<typeof setTimeout> | null = null;
+  let pending: { event: T } | null = null;
+
+  const suppress = (event: T) => {
+    const merged = pending ? merge(pending.event, event) : event;
+    pending = merged === null ? null : { event: merged };
+  };
+
+  const startWindow = () => {
+    timerId = setTimeout(() => {
+      timerId = null;
+      const last = pending;
+      pending = null;
+      if (trailing && last) {
+        callback(last.event);
+        startWindow();
+      }
+    }, wait);
+  };
+
+  return {
+    call: event => {
+      if (timerId === null) {
+        if (leading) callback(event);
+        else suppress(event);
+        startWindow();
+      } else {
+        suppress(event);
+      }
+    },
+    cancel: () => {
+      if (timerId) clearTimeout(timerId);
+      timerId = null;
+      pending = null;
+    },
+  };
+}
 
-  private maybeStopLibraryFolderWatcher(): void {
-    if (this.libraryFolderEntries.size === 0 && this.libraryFolderTimerId) {
-      clearInterval(this.libraryFolderTimerId);
-      this.libraryFolderTimerId = null;
-      this.libraryFolderPrevious = null;
-    }
-  }
+function mergeChangeEvents<T>(earlier: ChangeEvent<T>, later: ChangeEvent<T>): ChangeEvent<T> {
+  return { previous: earlier.previous, current: later.current, timestamp: later.timestamp };
+}
 
-  private async checkLibraryFolderChange(): Promise<void> {
-    try {
-      const libraryPath = eagle.library.path;
+function mergeSelectionEvents<T extends { id: string }>(
+  earlier: SelectionChangeEvent<T>,
+  later: SelectionChangeEvent<T>,
+  comparison: Pick<SelectionEntry<T>, 'compare' | 'maxEqualLookups'>
+): SelectionChangeEvent<T> | null {
+  const prevIds = earlier.previous.map(v => v.id);
+  const currIds = later.current.map(v => v.id);
+  const prevSet = new Set(prevIds);
+  const currSet = new Set(currIds);
+
+  const added = currIds.filter(id => !prevSet.has(id));
+  const removed = prevIds.filter(id => !currSet.has(id));
+  // Edited at some point while selected on both ends
+  const modified = [...new Set([...earlier.modified, ...later.modified])].filter(
+    id => prevSet.has(id) && currSet.has(id)
+  );
+
+  const changed =
+    comparison.compare === 'unordered'
+      ? added.length > 0 || removed.length > 0
+      : hasSelectionChanged(prevIds, currIds, comparison.maxEqualLookups);
+  if (!changed && modified.length === 0) return null;
+
+  return {
+    previous: earlier.previous,
+    current: later.current,
+    added,
+    removed,
+    modified,
+    timestamp: later.timestamp,
+  };
+}
 
-      const stats = await fs.stat(libraryPath);
-      const current: LibraryFolderState = { mtime: stats.mtimeMs };
+function mergeItemsModifiedEvents(
+  earlier: ItemsModifiedEvent,
+  later: ItemsModifiedEvent
+): ItemsModifiedEvent | null {
+  type ItemChange = 'added' | 'removed' | 'modified';
+
+  // Net change per ID: added then removed cancels out, removed then added is a modification
+  const changes = new Map<string, ItemChange>();
+  for (const event of [earlier, later]) {
+    event.added.forEach(id => {
+      changes.set(id, changes.get(id) === 'removed' ? 'modified' : 'added');
+    });
+    event.modified.forEach(id => {
+      if (changes.get(id) !== 'added') changes.set(id, 'modified');
+    });
+    event.removed.forEach(id => {
+      if (changes.get(id) === 'added') changes.delete(id);
+      else changes.set(id, 'removed');
+    });
+  }
+  if (changes.size === 0) return null;
+
+  const ofType = (type: ItemChange) =>
+    [...changes].filter(([, change]) => change === type).map(([id]) => id);
+
+  // Latest snapshot per ID, only for items that still exist
+  const items = new Map<string, PlainItem>();
+  [...earlier.items, ...later.items].forEach(item => items.set(item.id, item));
+
+  return {
+    added: ofType('added'),
+    removed: ofType('removed'),
+    modified: ofType('modified'),
+    items: [...items.values()].filter(item => {
+      const change = changes.get(item.id);
+      return change === 'added' || change === 'modified';
+    }),
+    timestamp: later.timestamp,
+  };
+}
 
-      const previous = this.libraryFolderPrevious;
+function mergeMetadataEvents(
+  earlier: LibraryMetadataChangeEvent,
+  later: LibraryMetadataChangeEvent
+): LibraryMetadataChangeEvent | null {
+  const changes = diffLibraryMetadata(earlier.previous, later.current);
+  if (changes.length === 0) return null;
+  return {
+    changes,
+    previous: earlier.previous,
+    current: later.current,
+    timestamp: later.timestamp,
+  };
+}
 
-      if (previous !== null && current.mtime !== previous.mtime) {
-        const event: ChangeEvent<LibraryFolderState> = {
-          previous,
-          current,
-          timestamp: Date.now(),
-        };
+function getMinInterval(entries: Set<WatcherEntry<never>>): number {
+  let min = Infinity;
+  entries.forEach(e => {
+    if (e.interval < min) min = e.interval;
+  });
+  return min === Infinity ? 500 : min;
+}
 
-        this.libraryFolderEntries.forEach(entry => {
-          try {
-            entry.callback(event);
-          } catch (e) {
-            console.error('[eagle-cooltils] Library folder change callback error:', e);
-          }
-        });
-      }
+function getMinDebounce(entries: Set<WatcherEntry<never>>): number {
+  let min = Infinity;
+  entries.forEach(e => {
+    if (e.debounce < min) min = e.debounce;
+  });
+  return min === Infinity ? 50 : min;
+}
 
-      this.libraryFolderPrevious = current;
-    } catch (e) {
-      console.error('[eagle-cooltils] Library folder mtime check error:', e);
-    }
+/** Returns the event to deliver to `entry`, or null if it sees no change */
+function diffSelection<T extends { id: string }>(
+  previous: T[],
+  current: T[],
+  entry: SelectionEntry<T>,
+  fingerprint: (value: T) => string
+): SelectionChangeEvent<T> | null {
+  const prevIds = previous.map(v => v.id);
+  const currIds = current.map(v => v.id);
+  const prevSet = new Set(prevIds);
+  const currSet = new Set(currIds);
+
+  const added = currIds.filter(id => !prevSet.has(id));
+  const removed = prevIds.filter(id => !currSet.has(id));
+  const modified: string[] = [];
+
+  if (entry.detectModifications) {
+    const before = new Map(previous.map(v => [v.id, fingerprint(v)]));
+    current.forEach(v => {
+      const old = before.get(v.id);
+      if (old !== undefined && old !== fingerprint(v)) modified.push(v.id);
+    });
   }
 
-  // --------------------------------------------------------------------------
-  // Utilities
-  // --------------------------------------------------------------------------
+  const changed =
+    entry.compare === 'unordered'
+      ? added.length > 0 || removed.length > 0
+      : hasSelectionChanged(prevIds, currIds, entry.maxEqualLookups);
 
-  private getMinInterval<T>(entries: Set<WatcherEntry<T>>): number {
-    let min = 500;
-    entries.forEach(e => {
-      if (e.interval < min) min = e.interval;
-    });
-    return min;
-  }
+  if (!changed && modified.length === 0) return null;
 
-  private hasSelectionChanged(
-    prev: string[],
-    curr: string[],
-    maxLookups: number
-  ): boolean {
-    if (prev.length !== curr.length) return true;
+  return { previous, current, added, removed, modified, timestamp: Date.now() };
+}
 
-    const limit = maxLookups === -1 ? prev.length : Math.min(maxLookups, prev.length);
+function hasSelectionChanged(prev: string[], curr: string[], maxLookups: number): boolean {
+  if (prev.length !== curr.length) return true;
 
-    for (let i = 0; i < limit; i++) {
-      if (prev[i] !== curr[i]) return true;
-    }
+  const limit = maxLookups === -1 ? prev.length : Math.min(maxLookups, prev.length);
 
-    return false;
+  for (let i = 0; i < limit; i++) {
+    if (prev[i] !== curr[i]) return true;
   }
+
+  return false;
+}
+
+function fingerprintItem(item: PlainItem): string {
+  return JSON.stringify(item);
+}
+
+function fingerprintFolder(folder: PlainFolder): string {
+  // children are live Folder objects; their IDs are enough to spot a change
+  return JSON.stringify({ ...folder, children: folder.children.map(child => child.id) });
 }
 
 // ============================================================================
@@ -539,18 +1154,21 @@ export function onLibraryChange(
  *
  * @param callback - Called when selected items change
  * @param options.interval - Check interval in ms (default: 500)
+ * @param options.throttle - Limit how often the callback runs, e.g. `{ wait: 1000 }`
  * @param options.maxEqualLookups - Max IDs to compare, -1 for all (default: -1)
+ * @param options.compare - 'ordered' or 'unordered' (default: 'ordered')
+ * @param options.detectModifications - Also fire when a selected item is edited (default: false)
  *
  * @example
  * ```ts
  * const unsubscribe = onItemChange((event) => {
- *   console.log('Selection changed:', event.current.length, 'items');
- * }, { interval: 200, maxEqualLookups: 10 });
+ *   console.log('Selected:', event.added, 'Deselected:', event.removed);
+ * }, { interval: 200, compare: 'unordered', detectModifications: true });
  * ```
  */
 export function onItemChange(
-  callback: (event: ChangeEvent<Item[]>) => void,
-  options?: SubscribeOptions
+  callback: (event: SelectionChangeEvent<PlainItem>) => void,
+  options?: SelectionSubscribeOptions
 ): Unsubscribe {
   return SubscriptionManager.getInstance().subscribeItems(callback, options);
 }
@@ -560,7 +1178,10 @@ export function onItemChange(
  *
  * @param callback - Called when selected folders change
  * @param options.interval - Check interval in ms (default: 500)
+ * @param options.throttle - Limit how often the callback runs, e.g. `{ wait: 1000 }`
  * @param options.maxEqualLookups - Max IDs to compare, -1 for all (default: -1)
+ * @param options.compare - 'ordered' or 'unordered' (default: 'ordered')
+ * @param options.detectModifications - Also fire when a selected folder is edited (default: false)
  *
  * @example
  * ```ts
@@ -570,8 +1191,8 @@ export function onItemChange(
  * ```
  */
 export function onFolderChange(
-  callback: (event: ChangeEvent<Folder[]>) => void,
-  options?: SubscribeOptions
+  callback: (event: SelectionChangeEvent<PlainFolder>) => void,
+  options?: SelectionSubscribeOptions
 ): Unsubscribe {
   return SubscriptionManager.getInstance().subscribeFolders(callback, options);
 }
@@ -582,6 +1203,9 @@ export function onFolderChange(
  *
  * @param callback - Called when library metadata file changes
  * @param options.interval - Check interval in ms (default: 500)
+ * @param options.throttle - Limit how often the callback runs, e.g. `{ wait: 1000 }`
+ * @param options.backend - 'poll' or 'watch' for near-instant fs.watch events (default: 'poll')
+ * @param options.debounce - fs.watch debounce in ms (default: 50)
  *
  * @example
  * ```ts
@@ -603,6 +1227,9 @@ export function onLibraryConfigChange(
  *
  * @param callback - Called when library folder structure changes
  * @param options.interval - Check interval in ms (default: 500)
+ * @param options.throttle - Limit how often the callback runs, e.g. `{ wait: 1000 }`
+ * @param options.backend - 'poll' or 'watch' for near-instant fs.watch events (default: 'poll')
+ * @param options.debounce - fs.watch debounce in ms (default: 50)
  *
  * @example
  * ```ts
@@ -618,3 +1245,106 @@ export function onLibraryFolderChange(
 ): Unsubscribe {
   return SubscriptionManager.getInstance().subscribeLibraryFolders(callback, options);
 }
+
+/**
+ * Subscribe to item content changes (tags, annotation, rating, name, ...) across the library.
+ * Diffs `eagle.item.getIdsWithModifiedAt()` between checks, so no library rescan is needed.
+ *
+ * @param callback - Called with added/removed/modified IDs and snapshots of changed items
+ * @param options.interval - Check interval in ms (default: 500)
+ * @param options.throttle - Limit how often the callback runs, e.g. `{ wait: 1000 }`
+ * @param options.backend - 'poll' or 'watch' to check when mtime.json changes (default: 'poll')
+ * @param options.debounce - fs.watch debounce in ms (default: 50)
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = onItemsModified((event) => {
+ *   for (const item of event.items) sync(item);
+ *   event.removed.forEach(id => forget(id));
+ * }, { backend: 'watch' });
+ * ```
+ */
+export function onItemsModified(
+  callback: (event: ItemsModifiedEvent) => void,
+  options?: Omit<SubscribeOptions, 'maxEqualLookups'>
+): Unsubscribe {
+  return SubscriptionManager.getInstance().subscribeItemsModified(callback, options);
+}
+
+/**
+ * Subscribe to structural changes of the library's metadata.json.
+ * Diffs the folder tree, smart folders, tag groups and quick access between checks
+ * and only fires when something actually changed.
+ *
+ * @param callback - Called with typed added/removed/renamed/moved/updated changes
+ * @param options.interval - Check interval in ms (default: 500)
+ * @param options.throttle - Limit how often the callback runs, e.g. `{ wait: 1000 }`
+ * @param options.backend - 'poll' or 'watch' for near-instant fs.watch events (default: 'poll')
+ * @param options.debounce - fs.watch debounce in ms (default: 50)
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = onLibraryMetadataChange(({ changes }) => {
+ *   for (const change of changes) {
+ *     if (change.kind === 'folder' && change.type === 'renamed') {
+ *       console.log('Folder renamed:', change.previousName, '->', change.name);
+ *     }
+ *   }
+ * });
+ * ```
+ */
+export function onLibraryMetadataChange(
+  callback: (event: LibraryMetadataChangeEvent) => void,
+  options?: Omit<SubscribeOptions, 'maxEqualLookups'>
+): Unsubscribe {
+  return SubscriptionManager.getInstance().subscribeMetadata(callback, options);
+}
+
+/**
+ * Subscribe to a custom state source. The source is read every `interval` ms
+ * (or on fs.watch events) and the callback fires when `equals` reports a change.
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = onStateChange(
+ *   {
+ *     label: 'Sidecar',
+ *     read: () => fs.promises.readFile(sidecarPath, 'utf8'),
+ *     equals: (a, b) => a === b,
+ *   },
+ *   (event) => console.log('Sidecar changed'),
+ *   { interval: 2000 }
+ * );
+ * ```
+ */
+export function onStateChange<T>(
+  source: StateSource<T>,
+  callback: (event: ChangeEvent<T>) => void,
+  options?: Omit<SubscribeOptions, 'maxEqualLookups'>
+): Unsubscribe {
+  return SubscriptionManager.getInstance().subscribeState(source, callback, options);
+}
+
+/**
+ * Pause every subscription (timers and fs watchers stop, subscribers stay registered).
+ * Subscriptions also pause automatically while the plugin window is hidden.
+ */
+export function pauseAll(): void {
+  SubscriptionManager.getInstance().pause();
+}
+
+/**
+ * Resume after `pauseAll()`. Each watcher checks immediately, so changes made
+ * while paused are delivered as one catch-up event.
+ */
+export function resumeAll(): void {
+  SubscriptionManager.getInstance().resume();
+}
+
+/**
+ * Remove every subscription and forget all tracked state.
+ * Runs automatically on `eagle.onPluginBeforeExit`; useful between tests.
+ */
+export function disposeAll(): void {
+  SubscriptionManager.getInstance().dispose();
+}
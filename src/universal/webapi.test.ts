@@ -0,0 +1,282 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MockEagleServer } from '../testing/mock-server';
+import {
+  EagleApiAuthError,
+  EagleApiError,
+  EagleApiNetworkError,
+  EagleApiNotFoundError,
+  EagleApiTimeoutError,
+  EagleWebApi,
+  type EagleWebApiItem,
+} from './webapi';
+
+function apiItem(id: string, patch: Partial<EagleWebApiItem> = {}): EagleWebApiItem {
+  return {
+    id,
+    name: `item-${id}`,
+    ext: 'jpg',
+    width: 10,
+    height: 20,
+    size: 100,
+    url: '',
+    isDeleted: false,
+    annotation: '',
+    tags: [],
+    folders: [],
+    palettes: [],
+    modificationTime: 1,
+    lastModified: 1,
+    ...patch,
+  };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/** Replies to each call with the next scripted response; records the requested endpoints */
+function scriptedFetch(...replies: (Response | Error)[]) {
+  const endpoints: string[] = [];
+  const fetchImpl: typeof fetch = async (input) => {
+    endpoints.push(new URL(String(input)).pathname.replace(/^\/api\//, ''));
+    const reply = replies.shift();
+    if (!reply) throw new Error('No scripted reply left');
+    if (reply instanceof Error) throw reply;
+    return reply;
+  };
+  return { fetch: fetchImpl, endpoints };
+}
+
+/** Never answers; rejects with the abort reason like the real fetch */
+const hangingFetch: typeof fetch = (_input, init) =>
+  new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(init.signal?.reason), { once: true });
+  });
+
+function refused(): Error {
+  return new TypeError('fetch failed', {
+    cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+  });
+}
+
+describe('EagleWebApi with MockEagleServer', () => {
+  let server: MockEagleServer;
+  let api: EagleWebApi;
+
+  beforeEach(async () => {
+    server = await MockEagleServer.start({
+      library: {
+        items: [apiItem('A', { tags: ['colour'] }), apiItem('B', { name: 'other' })],
+        folders: [
+          {
+            id: 'F1',
+            name: 'Folder',
+            description: '',
+            children: [],
+            modificationTime: 1,
+            tags: [],
+          },
+        ],
+        recentTags: ['colour'],
+      },
+    });
+    // No token: fetched from application/info on first use
+    api = new EagleWebApi({ baseUrl: server.url });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('unwraps typed results from the response envelope', async () => {
+    const info = await api.application.info();
+    const items = await api.item.list({ name: 'other' });
+    const item = await api.item.getInfo('A');
+    const folders = await api.folder.list();
+    const library = await api.library.info();
+
+    expect(info.version).toBe('4.0.0');
+    expect(items.map((entry) => entry.id)).toEqual(['B']);
+    expect(item).toMatchObject({ id: 'A', width: 10, height: 20 });
+    expect(folders[0]?.name).toBe('Folder');
+    expect(library.library.path).toBe('/mock/Mock.library');
+  });
+
+  it('fetches the token once and sends it with every request', async () => {
+    await api.item.list();
+    await api.folder.list();
+
+    expect(server.requests.map((request) => request.endpoint)).toEqual([
+      'application/info',
+      'item/list',
+      'folder/list',
+    ]);
+    expect(server.requests[2]?.query.token).toBe(server.token);
+  });
+});
+
+describe('EagleWebApi errors', () => {
+  it('throws EagleApiError for status: error replies with HTTP 200', async () => {
+    const { fetch } = scriptedFetch(json({ status: 'error', message: 'Invalid folder name' }));
+    const api = new EagleWebApi({ token: 't', fetch });
+
+    const error = await api.folder.create('').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(EagleApiError);
+    expect(error).toMatchObject({
+      endpoint: 'folder/create',
+      method: 'POST',
+      status: 200,
+      eagleStatus: 'error',
+      eagleMessage: 'Invalid folder name',
+    });
+  });
+
+  it('maps 404 and "does not exist" replies to EagleApiNotFoundError', async () => {
+    const { fetch } = scriptedFetch(
+      json({ status: 'error', message: 'Not found' }, 404),
+      json({ status: 'error', message: 'Item does not exist' })
+    );
+    const api = new EagleWebApi({ token: 't', fetch });
+
+    await expect(api.tag.listRecent()).rejects.toThrow(EagleApiNotFoundError);
+    await expect(api.item.getInfo('X')).rejects.toThrow(EagleApiNotFoundError);
+  });
+
+  it('keeps non-JSON bodies as raw text', async () => {
+    const { fetch } = scriptedFetch(new Response('Bad Gateway', { status: 502 }));
+    const api = new EagleWebApi({ token: 't', fetch, retries: 0 });
+
+    await expect(api.item.list()).rejects.toMatchObject({ status: 502, body: 'Bad Gateway' });
+  });
+
+  it('wraps connection failures in EagleApiNetworkError', async () => {
+    const { fetch } = scriptedFetch(refused());
+    const api = new EagleWebApi({ token: 't', fetch, retries: 0 });
+
+    const error = await api.item.list().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(EagleApiNetworkError);
+    expect((error as EagleApiNetworkError).cause).toBeInstanceOf(TypeError);
+  });
+
+  it('refreshes a rejected auto-fetched token once and retries', async () => {
+    const info = (token: string) =>
+      json({ status: 'success', data: { preferences: { developer: { apiToken: token } } } });
+    const { fetch, endpoints } = scriptedFetch(
+      info('old'),
+      json({ status: 'error', message: 'Invalid token' }, 401),
+      info('new'),
+      json({ status: 'success', data: [] })
+    );
+    const api = new EagleWebApi({ fetch });
+
+    await expect(api.item.list()).resolves.toEqual([]);
+    expect(endpoints).toEqual(['application/info', 'item/list', 'application/info', 'item/list']);
+  });
+
+  it('does not retry when an explicit token is rejected', async () => {
+    const { fetch, endpoints } = scriptedFetch(
+      json({ status: 'error', message: 'Invalid token' }, 401)
+    );
+    const api = new EagleWebApi({ token: 'wrong', fetch });
+
+    await expect(api.item.list()).rejects.toThrow(EagleApiAuthError);
+    expect(endpoints).toEqual(['item/list']);
+  });
+});
+
+describe('EagleWebApi retries, timeouts and cancellation', () => {
+  const ok = () => json({ status: 'success', data: [] });
+
+  it('retries GETs after 5xx and network errors', async () => {
+    const { fetch, endpoints } = scriptedFetch(json({ status: 'error' }, 503), refused(), ok());
+    const api = new EagleWebApi({ token: 't', fetch, retries: 2, retryDelay: 1 });
+
+    await expect(api.item.list()).resolves.toEqual([]);
+    expect(endpoints).toHaveLength(3);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const { fetch, endpoints } = scriptedFetch(refused(), refused(), ok());
+    const api = new EagleWebApi({ token: 't', fetch, retries: 1, retryDelay: 1 });
+
+    await expect(api.item.list()).rejects.toThrow(EagleApiNetworkError);
+    expect(endpoints).toHaveLength(2);
+  });
+
+  it('only retries POSTs that never reached Eagle unless idempotent', async () => {
+    const { fetch, endpoints } = scriptedFetch(
+      refused(),
+      json({ status: 'error' }, 500),
+      json({ status: 'error' }, 500),
+      json({ status: 'success' })
+    );
+    const api = new EagleWebApi({ token: 't', fetch, retries: 2, retryDelay: 1 });
+
+    await expect(
+      api.item.addFromUrl({ url: 'https://example.com/a.png', name: 'a' })
+    ).rejects.toMatchObject({
+      status: 500,
+    });
+    expect(endpoints).toHaveLength(2);
+
+    await expect(
+      api.item.addFromUrl({ url: 'https://example.com/a.png', name: 'a' }, { idempotent: true })
+    ).resolves.toBeUndefined();
+    expect(endpoints).toHaveLength(4);
+  });
+
+  it('times out a hanging request with EagleApiTimeoutError', async () => {
+    const api = new EagleWebApi({ token: 't', fetch: hangingFetch, timeout: 20, retries: 0 });
+
+    const error = await api.item.list().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(EagleApiTimeoutError);
+    expect((error as EagleApiTimeoutError).timeout).toBe(20);
+  });
+
+  it('rejects with the abort reason and skips pending retries', async () => {
+    const controller = new AbortController();
+    const { fetch, endpoints } = scriptedFetch(refused(), ok());
+    const api = new EagleWebApi({ token: 't', fetch, retries: 2, retryDelay: 60_000 });
+
+    const pending = api.item.list({}, { signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+    await expect(pending).rejects.toThrow('cancelled');
+    expect(endpoints).toHaveLength(1);
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const { fetch, endpoints } = scriptedFetch(ok());
+    const api = new EagleWebApi({ token: 't', fetch });
+
+    const signal = AbortSignal.abort(new Error('too late'));
+
+    await expect(api.item.list({}, { signal })).rejects.toThrow('too late');
+    expect(endpoints).toEqual([]);
+  });
+
+  it('stops waiting for the automatic token fetch when the signal aborts', async () => {
+    const api = new EagleWebApi({ fetch: hangingFetch, timeout: 200, retries: 0 });
+    const controller = new AbortController();
+
+    const pending = api.item.list({}, { signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+    await expect(pending).rejects.toThrow('cancelled');
+  });
+
+  it("bounds the automatic token fetch by the caller's timeout", async () => {
+    const api = new EagleWebApi({ fetch: hangingFetch, retries: 0 });
+
+    await expect(api.item.list({}, { timeout: 20 })).rejects.toMatchObject({
+      name: 'EagleApiTimeoutError',
+      endpoint: 'application/info',
+    });
+  });
+});
@@ -3,6 +3,10 @@
  * Based on Eagle.cool Web API implementation patterns.
  */
 
+import type { QuickAccessEntry, SmartFolder, TagGroup } from './bareio';
+import { filterItems, type FilterableItem, type ItemFilter } from './filter';
+import type { PlainFolder, PlainItem } from './models';
+
 export type EagleWebApiMethod = 'GET' | 'POST';
 
 export interface EagleWebApiOptions {
@@ -14,6 +18,32 @@ export interface EagleWebApiOptions {
   getToken?: () => string | undefined;
   /** Custom fetch implementation (defaults to global fetch) */
   fetch?: typeof fetch;
+  /** Per-attempt timeout in ms, 0 disables (default: 30000) */
+  timeout?: number;
+  /**
+   * Retries after a network error or 5xx response (default: 2).
+   * POSTs are only retried when the connection was refused, unless `idempotent` is set.
+   */
+  retries?: number;
+  /** Base retry delay in ms, doubled on each attempt (default: 250) */
+  retryDelay?: number;
+}
+
+/**
+ * Per-call overrides, accepted as the last argument of every client method.
+ */
+export interface EagleWebApiRequestOptions {
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  /**
+   * Retry a POST after a 5xx or lost response too (default: false). Replaying a POST
+   * that reached Eagle can create duplicate items or folders, so by default it is
+   * only retried when the connection was refused.
+   */
+  idempotent?: boolean;
+  /** Aborts the request (and any pending retry); rejects with the signal's reason */
+  signal?: AbortSignal;
 }
 
 export interface EagleWebApiListParams extends Record<string, unknown> {
@@ -29,6 +59,18 @@ export interface EagleWebApiListParams extends Record<string, unknown> {
   folders?: string[];
 }
 
+export interface EagleWebApiListAllParams extends EagleWebApiListParams {
+  /** Items per request (default: `limit` or 200); `offset` is the first page index */
+  pageSize?: number;
+  /** Applied client-side to each page with `filterItems` */
+  filter?: ItemFilter;
+  /**
+   * Called after the last page is read, with the number of items listed before filtering.
+   * `item/list` reports no total, so it is not called when iteration stops early (`break`).
+   */
+  onTotal?: (total: number) => void;
+}
+
 export interface EagleWebApiAddBookmarkParams {
   url: string;
   name: string;
@@ -64,11 +106,237 @@ export interface EagleWebApiAddFromUrlsParams {
   folderId?: string;
 }
 
+export interface EagleWebApiAddFromPathsParams {
+  items: Omit<EagleWebApiAddFromPathParams, 'folderId'>[];
+  folderId?: string;
+}
+
+export interface EagleWebApiTagListParams extends Record<string, unknown> {
+  /** Filters tags by name */
+  name?: string;
+}
+
+export interface EagleWebApiCreateTagGroupParams {
+  name: string;
+  color?: string;
+  tags?: string[];
+  description?: string;
+}
+
+export interface EagleWebApiUpdateTagGroupParams {
+  id: string;
+  name?: string;
+  color?: string;
+  tags?: string[];
+  description?: string;
+}
+
+// ============================================================================
+// Response types
+// ============================================================================
+
+export interface EagleWebApiApplicationInfo {
+  version: string;
+  prereleaseVersion: string | null;
+  buildVersion: string;
+  execPath: string;
+  platform: string;
+  preferences?: {
+    developer?: {
+      apiToken?: string;
+    };
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface EagleWebApiPalette {
+  color: [number, number, number];
+  ratio: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Item as returned by `item/list`, `item/info` and `item/update`.
+ * Shares field names with `PlainItem`; file paths are not included.
+ */
+export interface EagleWebApiItem
+  extends Pick<
+    PlainItem,
+    | 'id'
+    | 'name'
+    | 'ext'
+    | 'width'
+    | 'height'
+    | 'url'
+    | 'isDeleted'
+    | 'annotation'
+    | 'tags'
+    | 'folders'
+    | 'size'
+  > {
+  palettes: EagleWebApiPalette[];
+  star?: number;
+  /** Import time in ms */
+  modificationTime: number;
+  /** Last edit time in ms */
+  lastModified: number;
+  noThumbnail?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Folder as returned by `folder/list`, `folder/listRecent` and folder mutations.
+ * Shares field names with `PlainFolder`; children are nested folders, not Eagle instances.
+ */
+export interface EagleWebApiFolder extends Pick<PlainFolder, 'id' | 'name'> {
+  description?: string;
+  children: EagleWebApiFolder[];
+  modificationTime: number;
+  tags: string[];
+  iconColor?: string;
+  imageCount?: number;
+  descendantImageCount?: number;
+  pinyin?: string;
+  extendTags?: string[];
+  [key: string]: unknown;
+}
+
+export interface EagleWebApiLibraryInfo {
+  folders: EagleWebApiFolder[];
+  smartFolders: SmartFolder[];
+  quickAccess: QuickAccessEntry[];
+  tagsGroups: TagGroup[];
+  modificationTime: number;
+  applicationVersion: string;
+  library: {
+    path: string;
+    name: string;
+  };
+}
+
+/** Tag as returned by the `tag/*` endpoints (mirrors the plugin API's `Tag`) */
+export interface EagleWebApiTag {
+  id?: string;
+  name: string;
+  color?: string;
+  count?: number;
+  /** Ids of the tag groups containing this tag */
+  groups?: string[];
+  pinyin?: string;
+}
+
+export interface EagleWebApiTagMergeResult {
+  affectedItems: number;
+  sourceRemoved: boolean;
+}
+
+/** Tag group as returned by the `tagGroup/*` endpoints */
+export interface EagleWebApiTagGroup extends TagGroup {
+  description?: string;
+}
+
+/** Paths of recently opened libraries */
+export type EagleWebApiLibraryHistory = string[];
+
+/** Absolute path of the item's thumbnail file */
+export type EagleWebApiThumbnail = string;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export interface EagleApiErrorDetails {
+  /** API path, e.g. `item/info` */
+  endpoint: string;
+  method: EagleWebApiMethod;
+  /** HTTP status (undefined when no response was received) */
+  status?: number;
+  /** `status` field of Eagle's response envelope */
+  eagleStatus?: string;
+  /** `message` field of Eagle's response envelope */
+  eagleMessage?: string;
+  /** Parsed JSON body, or raw text if it wasn't JSON */
+  body?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base error for failed Eagle Web API requests.
+ */
+export class EagleApiError extends Error {
+  readonly endpoint: string;
+  readonly method: EagleWebApiMethod;
+  readonly status: number | undefined;
+  readonly eagleStatus: string | undefined;
+  readonly eagleMessage: string | undefined;
+  readonly body: unknown;
+
+  constructor(message: string, details: EagleApiErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = 'EagleApiError';
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.status = details.status;
+    this.eagleStatus = details.eagleStatus;
+    this.eagleMessage = details.eagleMessage;
+    this.body = details.body;
+  }
+}
+
+/** Eagle could not be reached (not running, connection refused, DNS, ...) */
+export class EagleApiNetworkError extends EagleApiError {
+  constructor(message: string, details: EagleApiErrorDetails) {
+    super(message, details);
+    this.name = 'EagleApiNetworkError';
+  }
+}
+
+/** The token was rejected or could not be resolved */
+export class EagleApiAuthError extends EagleApiError {
+  constructor(message: string, details: EagleApiErrorDetails) {
+    super(message, details);
+    this.name = 'EagleApiAuthError';
+  }
+}
+
+/** No response within the configured `timeout` */
+export class EagleApiTimeoutError extends EagleApiError {
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number, details: EagleApiErrorDetails) {
+    super(message, details);
+    this.name = 'EagleApiTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/** The endpoint or the requested item/folder does not exist */
+export class EagleApiNotFoundError extends EagleApiError {
+  constructor(message: string, details: EagleApiErrorDetails) {
+    super(message, details);
+    this.name = 'EagleApiNotFoundError';
+  }
+}
+
+interface EagleResponseEnvelope<T> {
+  status?: string;
+  message?: string;
+  data?: T;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
 export class EagleWebApi {
   private readonly baseUrl: string;
   private readonly token: string | undefined;
   private readonly getToken: (() => string | undefined) | undefined;
   private readonly fetchImpl: typeof fetch;
+  private readonly timeout: number;
+  private readonly retries: number;
+  private readonly retryDelay: number;
   private cachedToken: string | undefined;
   private tokenFetchPromise: Promise<string> | undefined;
 
@@ -76,44 +344,47 @@ export class EagleWebApi {
   readonly folder: InstanceType<typeof EagleWebApi.Folder>;
   readonly library: InstanceType<typeof EagleWebApi.Library>;
   readonly item: InstanceType<typeof EagleWebApi.Item>;
+  readonly tag: InstanceType<typeof EagleWebApi.Tag>;
+  readonly tagGroup: InstanceType<typeof EagleWebApi.TagGroup>;
 
   constructor(options: EagleWebApiOptions = {}) {
     this.baseUrl = options.baseUrl ?? 'http://localhost:41595';
     this.token = options.token;
     this.getToken = options.getToken;
     this.fetchImpl = options.fetch ?? fetch;
+    this.timeout = options.timeout ?? 30000;
+    this.retries = options.retries ?? 2;
+    this.retryDelay = options.retryDelay ?? 250;
 
     this.application = new EagleWebApi.Application(this);
     this.folder = new EagleWebApi.Folder(this);
     this.library = new EagleWebApi.Library(this);
     this.item = new EagleWebApi.Item(this);
+    this.tag = new EagleWebApi.Tag(this);
+    this.tagGroup = new EagleWebApi.TagGroup(this);
   }
 
   /**
    * Fetches the API token from Eagle's application/info endpoint (no token required).
    * Token is at: data.preferences.developer.apiToken
    */
-  private async fetchTokenFromApi(): Promise<string> {
+  private async fetchTokenFromApi(options: EagleWebApiRequestOptions): Promise<string> {
     const url = `${this.baseUrl.replace(/\/$/, '')}/api/application/info`;
-    const response = await this.fetchImpl(url);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch Eagle API token: ${response.status} ${response.statusText}`);
-    }
-
-    const result = (await response.json()) as {
-      data?: {
-        preferences?: {
-          developer?: {
-            apiToken?: string;
-          };
-        };
-      };
-    };
+    const info = await this.send<EagleWebApiApplicationInfo>(
+      'application/info',
+      'GET',
+      url,
+      {},
+      options
+    );
 
-    const token = result?.data?.preferences?.developer?.apiToken;
+    const token = info?.preferences?.developer?.apiToken;
     if (!token) {
-      throw new Error('API token not found in Eagle application info');
+      throw new EagleApiAuthError('API token not found in Eagle application info', {
+        endpoint: 'application/info',
+        method: 'GET',
+        body: info,
+      });
     }
 
     return token;
@@ -123,9 +394,9 @@ export class EagleWebApi {
    * Resolves the API token. Priority:
    * 1. Explicit token from getToken() or constructor option
    * 2. Cached token from previous auto-fetch
-   * 3. Auto-fetch from /api/application/info
+   * 3. Auto-fetch from /api/application/info, bounded by the caller's timeout and signal
    */
-  private async resolveToken(): Promise<string> {
+  private async resolveToken(options: EagleWebApiRequestOptions): Promise<string> {
     // Check explicitly provided token first
     const providedToken = this.getToken?.() ?? this.token;
     if (providedToken) {
@@ -137,16 +408,23 @@ export class EagleWebApi {
       return this.cachedToken;
     }
 
-    // Avoid concurrent fetches - reuse existing promise
+    // Avoid concurrent fetches - reuse existing promise. The shared fetch only takes the
+    // caller's timeout; each caller stops waiting on its own signal, so one abort doesn't
+    // fail the others.
     if (!this.tokenFetchPromise) {
-      this.tokenFetchPromise = this.fetchTokenFromApi().then((token) => {
-        this.cachedToken = token;
-        this.tokenFetchPromise = undefined;
-        return token;
-      });
+      const timeout = options.timeout ?? this.timeout;
+      const fetching: Promise<string> = this.fetchTokenFromApi({ timeout })
+        .then((token) => {
+          this.cachedToken = token;
+          return token;
+        })
+        .finally(() => {
+          if (this.tokenFetchPromise === fetching) this.tokenFetchPromise = undefined;
+        });
+      this.tokenFetchPromise = fetching;
     }
 
-    return this.tokenFetchPromise;
+    return abortable(this.tokenFetchPromise, options.signal);
   }
 
   /**
@@ -165,13 +443,73 @@ export class EagleWebApi {
     return entries.length ? Object.fromEntries(entries) : undefined;
   }
 
+  /**
+   * Sends a request and unwraps Eagle's `{ status, data }` envelope.
+   * Throws `EagleApiError` (or a subclass) on HTTP errors and `status: 'error'` replies.
+   * Network errors and 5xx responses are retried with exponential backoff; POSTs only
+   * when the connection was refused, unless `options.idempotent` is set.
+   * An auth failure with an auto-fetched token clears the cache and retries once.
+   */
   async request<T = unknown>(
     path: string,
     method: EagleWebApiMethod = 'GET',
     data?: Record<string, unknown>,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options: EagleWebApiRequestOptions = {}
   ): Promise<T> {
-    const token = await this.resolveToken();
+    const retries = options.retries ?? this.retries;
+    const retryDelay = options.retryDelay ?? this.retryDelay;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.requestWithTokenRefresh<T>(path, method, data, params, options);
+      } catch (error) {
+        const retryable = EagleWebApi.isRetryable(error, method, options.idempotent ?? false);
+        if (attempt >= retries || !retryable) throw error;
+        await sleep(retryDelay * 2 ** attempt, options.signal);
+      }
+    }
+  }
+
+  private static isRetryable(
+    error: unknown,
+    method: EagleWebApiMethod,
+    idempotent: boolean
+  ): boolean {
+    if (method === 'POST' && !idempotent) {
+      // A refused connection never reached Eagle, so nothing can be applied twice
+      return error instanceof EagleApiNetworkError && hasErrorCode(error.cause, 'ECONNREFUSED');
+    }
+    if (error instanceof EagleApiNetworkError) return true;
+    return error instanceof EagleApiError && error.status !== undefined && error.status >= 500;
+  }
+
+  private async requestWithTokenRefresh<T>(
+    path: string,
+    method: EagleWebApiMethod,
+    data: Record<string, unknown> | undefined,
+    params: Record<string, unknown> | undefined,
+    options: EagleWebApiRequestOptions
+  ): Promise<T> {
+    const autoToken = !(this.getToken?.() ?? this.token);
+    try {
+      return await this.sendWithToken<T>(path, method, data, params, options);
+    } catch (error) {
+      const staleToken = autoToken && error instanceof EagleApiAuthError && error.endpoint === path;
+      if (!staleToken) throw error;
+      this.clearTokenCache();
+      return this.sendWithToken<T>(path, method, data, params, options);
+    }
+  }
+
+  private async sendWithToken<T>(
+    path: string,
+    method: EagleWebApiMethod,
+    data: Record<string, unknown> | undefined,
+    params: Record<string, unknown> | undefined,
+    options: EagleWebApiRequestOptions
+  ): Promise<T> {
+    const token = await this.resolveToken(options);
     const url = new URL(`${this.baseUrl.replace(/\/$/, '')}/api/${path}`);
 
     const cleanedParams = EagleWebApi.cleanObject({ ...(params ?? {}), token });
@@ -193,166 +531,633 @@ export class EagleWebApi {
       init.body = JSON.stringify(cleanedData ?? {});
     }
 
-    const response = await this.fetchImpl(url.toString(), init);
+    return this.send<T>(path, method, url.toString(), init, options);
+  }
+
+  private async send<T>(
+    path: string,
+    method: EagleWebApiMethod,
+    url: string,
+    init: RequestInit,
+    options: EagleWebApiRequestOptions
+  ): Promise<T> {
+    const { signal } = options;
+    const timeout = options.timeout ?? this.timeout;
+    signal?.throwIfAborted();
+
+    // Node 18 has no AbortSignal.any, so link the caller's signal by hand
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : undefined;
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await this.fetchImpl(url, { ...init, signal: controller.signal });
+      text = await response.text();
+    } catch (error) {
+      if (timedOut) {
+        throw new EagleApiTimeoutError(
+          `Eagle API request timed out after ${timeout}ms: ${method} ${path}`,
+          timeout,
+          { endpoint: path, method, cause: error }
+        );
+      }
+      signal?.throwIfAborted();
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new EagleApiNetworkError(`Eagle API request failed: ${method} ${path}: ${reason}`, {
+        endpoint: path,
+        method,
+        cause: error,
+      });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    let body: unknown = text;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Keep raw text
+    }
+
+    const envelope =
+      typeof body === 'object' && body !== null ? (body as EagleResponseEnvelope<T>) : undefined;
+
+    if (!response.ok || envelope?.status === 'error') {
+      throw EagleWebApi.createError(path, method, response, body, envelope);
+    }
 
-    if (!response.ok) {
-      const text = await response.text().catch(() => '');
-      throw new Error(`Eagle API request failed: ${response.status} ${response.statusText} ${text}`);
+    if (typeof body === 'string') {
+      throw new EagleApiError(`Eagle API returned a non-JSON response: ${method} ${path}`, {
+        endpoint: path,
+        method,
+        status: response.status,
+        body,
+      });
     }
 
-    const result = (await response.json()) as { data?: T };
-    return result?.data as T;
+    return envelope?.data as T;
+  }
+
+  private static createError(
+    path: string,
+    method: EagleWebApiMethod,
+    response: Response,
+    body: unknown,
+    envelope: EagleResponseEnvelope<unknown> | undefined
+  ): EagleApiError {
+    const eagleMessage =
+      envelope?.message ?? (typeof envelope?.data === 'string' ? envelope.data : undefined);
+    const details: EagleApiErrorDetails = { endpoint: path, method, status: response.status, body };
+    if (envelope?.status !== undefined) details.eagleStatus = envelope.status;
+    if (eagleMessage !== undefined) details.eagleMessage = eagleMessage;
+
+    const reason = eagleMessage ?? (typeof body === 'string' ? body : '');
+    const message =
+      `Eagle API request failed: ${response.status} ${response.statusText} ${reason}`.trim();
+
+    if (response.status === 401 || response.status === 403 || /token/i.test(eagleMessage ?? '')) {
+      return new EagleApiAuthError(message, details);
+    }
+    if (response.status === 404 || /not found|does not exist/i.test(eagleMessage ?? '')) {
+      return new EagleApiNotFoundError(message, details);
+    }
+    return new EagleApiError(message, details);
   }
 
   static Application = class Application {
     constructor(public readonly client: EagleWebApi) {}
 
-    info() {
-      return this.client.request('application/info');
+    info(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiApplicationInfo>(
+        'application/info',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
     }
   };
 
   static Folder = class Folder {
     constructor(public readonly client: EagleWebApi) {}
 
-    create(name: string, parentId?: string) {
-      return this.client.request('folder/create', 'POST', {
-        folderName: name,
-        parent: parentId,
-      });
+    create(name: string, parentId?: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiFolder>(
+        'folder/create',
+        'POST',
+        {
+          folderName: name,
+          parent: parentId,
+        },
+        undefined,
+        options
+      );
     }
 
-    rename(folderId: string, newName: string) {
-      return this.client.request('folder/rename', 'POST', {
-        folderId,
-        newName,
-      });
+    rename(folderId: string, newName: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiFolder>(
+        'folder/rename',
+        'POST',
+        {
+          folderId,
+          newName,
+        },
+        undefined,
+        options
+      );
     }
 
-    update(folderId: string, newName?: string, newDescription?: string, newColor?: string) {
-      return this.client.request('folder/update', 'POST', {
-        folderId,
-        newName,
-        newDescription,
-        newColor,
-      });
+    update(
+      folderId: string,
+      newName?: string,
+      newDescription?: string,
+      newColor?: string,
+      options?: EagleWebApiRequestOptions
+    ) {
+      return this.client.request<EagleWebApiFolder>(
+        'folder/update',
+        'POST',
+        {
+          folderId,
+          newName,
+          newDescription,
+          newColor,
+        },
+        undefined,
+        options
+      );
     }
 
-    list() {
-      return this.client.request('folder/list');
+    list(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiFolder[]>(
+        'folder/list',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
     }
 
-    listRecent() {
-      return this.client.request('folder/listRecent');
+    listRecent(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiFolder[]>(
+        'folder/listRecent',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
     }
   };
 
   static Library = class Library {
     constructor(public readonly client: EagleWebApi) {}
 
-    info() {
-      return this.client.request('library/info');
+    info(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiLibraryInfo>(
+        'library/info',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
     }
 
-    history() {
-      return this.client.request('library/history');
+    history(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiLibraryHistory>(
+        'library/history',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
     }
 
-    switch(libraryPath: string) {
-      return this.client.request('library/switch', 'POST', {
-        libraryPath,
-      });
+    switch(libraryPath: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'library/switch',
+        'POST',
+        {
+          libraryPath,
+        },
+        undefined,
+        options
+      );
     }
 
-    icon(libraryPath: string) {
-      return this.client.request('library/icon', 'GET', undefined, {
-        libraryPath,
-      });
+    icon(libraryPath: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request(
+        'library/icon',
+        'GET',
+        undefined,
+        {
+          libraryPath,
+        },
+        options
+      );
     }
   };
 
   static Item = class Item {
     constructor(public readonly client: EagleWebApi) {}
 
-    update(itemId: string, tags?: string[], annotation?: string, url?: string, star?: number) {
-      return this.client.request('item/update', 'POST', {
-        id: itemId,
-        tags,
-        annotation,
-        url,
-        star,
-      });
+    update(
+      itemId: string,
+      tags?: string[],
+      annotation?: string,
+      url?: string,
+      star?: number,
+      options?: EagleWebApiRequestOptions
+    ) {
+      return this.client.request<EagleWebApiItem>(
+        'item/update',
+        'POST',
+        {
+          id: itemId,
+          tags,
+          annotation,
+          url,
+          star,
+        },
+        undefined,
+        options
+      );
     }
 
-    refreshThumbnail(itemId: string) {
-      return this.client.request('item/refreshThumbnail', 'POST', { id: itemId });
+    refreshThumbnail(itemId: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'item/refreshThumbnail',
+        'POST',
+        { id: itemId },
+        undefined,
+        options
+      );
     }
 
-    refreshPalette(itemId: string) {
-      return this.client.request('item/refreshPalette', 'POST', { id: itemId });
+    refreshPalette(itemId: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'item/refreshPalette',
+        'POST',
+        { id: itemId },
+        undefined,
+        options
+      );
     }
 
-    moveToTrash(itemIds: string[]) {
-      return this.client.request('item/moveToTrash', 'POST', { itemIds });
+    moveToTrash(itemIds: string[], options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'item/moveToTrash',
+        'POST',
+        { itemIds },
+        undefined,
+        options
+      );
     }
 
-    list(params: EagleWebApiListParams = {}) {
+    list(params: EagleWebApiListParams = {}, options?: EagleWebApiRequestOptions) {
       const { keyword, name, ...rest } = params;
-      return this.client.request('item/list', 'GET', undefined, {
-        ...rest,
-        name: name ?? keyword,
-      });
+      return this.client.request<EagleWebApiItem[]>(
+        'item/list',
+        'GET',
+        undefined,
+        {
+          ...rest,
+          name: name ?? keyword,
+        },
+        options
+      );
     }
 
-    getThumbnail(itemId: string) {
-      return this.client.request('item/thumbnail', 'GET', undefined, { id: itemId });
+    /**
+     * Pages through `item/list` until a short page is returned.
+     * Eagle treats `offset` as a page index, not an item offset.
+     *
+     * @example
+     * for await (const item of api.item.listAll({ tags: ['photo'], pageSize: 500 })) { ... }
+     */
+    async *listAll(
+      params: EagleWebApiListAllParams = {},
+      options?: EagleWebApiRequestOptions
+    ): AsyncGenerator<EagleWebApiItem> {
+      const { pageSize, filter, onTotal, limit, offset = 0, ...rest } = params;
+      const size = Math.max(1, pageSize ?? limit ?? 200);
+      let total = 0;
+
+      for (let page = offset; ; page++) {
+        const items = await this.list({ ...rest, limit: size, offset: page }, options);
+        total += items.length;
+
+        if (filter) {
+          const filterable = items.map(toFilterableApiItem);
+          const matched = new Set(filterItems(filterable, filter));
+          yield* items.filter((_, i) => matched.has(filterable[i] as FilterableItem));
+        } else {
+          yield* items;
+        }
+
+        if (items.length < size) break;
+      }
+
+      onTotal?.(total);
     }
 
-    getInfo(itemId: string) {
-      return this.client.request('item/info', 'GET', undefined, { id: itemId });
+    getThumbnail(itemId: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiThumbnail>(
+        'item/thumbnail',
+        'GET',
+        undefined,
+        {
+          id: itemId,
+        },
+        options
+      );
     }
 
-    addBookmark(params: EagleWebApiAddBookmarkParams) {
-      return this.client.request('item/addBookmark', 'POST', {
-        url: params.url,
-        name: params.name,
-        base64: params.base64,
-        tags: params.tags,
-        modificationTime: params.modificationTime,
-        folderId: params.folderId,
-      });
+    getInfo(itemId: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiItem>(
+        'item/info',
+        'GET',
+        undefined,
+        { id: itemId },
+        options
+      );
     }
 
-    addFromUrl(params: EagleWebApiAddFromUrlParams) {
-      return this.client.request('item/addFromURL', 'POST', {
-        url: params.url,
-        name: params.name,
-        website: params.website,
-        tags: params.tags,
-        star: params.star,
-        annotation: params.annotation,
-        modificationTime: params.modificationTime,
-        folderId: params.folderId,
-        headers: params.headers,
-      });
+    addBookmark(params: EagleWebApiAddBookmarkParams, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'item/addBookmark',
+        'POST',
+        {
+          url: params.url,
+          name: params.name,
+          base64: params.base64,
+          tags: params.tags,
+          modificationTime: params.modificationTime,
+          folderId: params.folderId,
+        },
+        undefined,
+        options
+      );
     }
 
-    addFromPath(params: EagleWebApiAddFromPathParams) {
-      return this.client.request('item/addFromPath', 'POST', {
-        path: params.path,
-        name: params.name,
-        website: params.website,
-        annotation: params.annotation,
-        tags: params.tags,
-        folderId: params.folderId,
-      });
+    addFromUrl(params: EagleWebApiAddFromUrlParams, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'item/addFromURL',
+        'POST',
+        {
+          url: params.url,
+          name: params.name,
+          website: params.website,
+          tags: params.tags,
+          star: params.star,
+          annotation: params.annotation,
+          modificationTime: params.modificationTime,
+          folderId: params.folderId,
+          headers: params.headers,
+        },
+        undefined,
+        options
+      );
     }
 
-    addFromUrls(params: EagleWebApiAddFromUrlsParams) {
-      return this.client.request('item/addFromURLs', 'POST', {
-        items: params.items,
-        folderId: params.folderId,
-      });
+    addFromPath(params: EagleWebApiAddFromPathParams, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'item/addFromPath',
+        'POST',
+        {
+          path: params.path,
+          name: params.name,
+          website: params.website,
+          annotation: params.annotation,
+          tags: params.tags,
+          folderId: params.folderId,
+        },
+        undefined,
+        options
+      );
+    }
+
+    addFromUrls(params: EagleWebApiAddFromUrlsParams, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'item/addFromURLs',
+        'POST',
+        {
+          items: params.items,
+          folderId: params.folderId,
+        },
+        undefined,
+        options
+      );
+    }
+
+    addFromPaths(params: EagleWebApiAddFromPathsParams, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'item/addFromPaths',
+        'POST',
+        {
+          items: params.items,
+          folderId: params.folderId,
+        },
+        undefined,
+        options
+      );
+    }
+
+    /** Items currently selected in Eagle's main window */
+    listSelected(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiItem[]>(
+        'item/listSelected',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
+    }
+
+    /** Replaces the selection in Eagle's main window */
+    select(itemIds: string[], options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>('item/select', 'POST', { itemIds }, undefined, options);
+    }
+  };
+
+  /**
+   * Tag endpoints. Like `tagGroup` and the newer `item` endpoints, these need a recent
+   * Eagle build; older versions answer with `EagleApiNotFoundError`.
+   */
+  static Tag = class Tag {
+    constructor(public readonly client: EagleWebApi) {}
+
+    list(params: EagleWebApiTagListParams = {}, options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiTag[]>('tag/list', 'GET', undefined, params, options);
+    }
+
+    listRecent(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiTag[]>(
+        'tag/listRecent',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
+    }
+
+    listStarred(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiTag[]>(
+        'tag/listStarred',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
+    }
+
+    /** Renames `source` to `target` on every item, merging the two tags */
+    merge(source: string, target: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiTagMergeResult>(
+        'tag/merge',
+        'POST',
+        { source, target },
+        undefined,
+        options
+      );
     }
   };
+
+  static TagGroup = class TagGroup {
+    constructor(public readonly client: EagleWebApi) {}
+
+    list(options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiTagGroup[]>(
+        'tagGroup/list',
+        'GET',
+        undefined,
+        undefined,
+        options
+      );
+    }
+
+    create(params: EagleWebApiCreateTagGroupParams, options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiTagGroup>(
+        'tagGroup/create',
+        'POST',
+        {
+          name: params.name,
+          color: params.color,
+          tags: params.tags,
+          description: params.description,
+        },
+        undefined,
+        options
+      );
+    }
+
+    update(params: EagleWebApiUpdateTagGroupParams, options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiTagGroup>(
+        'tagGroup/update',
+        'POST',
+        {
+          id: params.id,
+          name: params.name,
+          color: params.color,
+          tags: params.tags,
+          description: params.description,
+        },
+        undefined,
+        options
+      );
+    }
+
+    remove(groupId: string, options?: EagleWebApiRequestOptions) {
+      return this.client.request<undefined>(
+        'tagGroup/remove',
+        'POST',
+        { id: groupId },
+        undefined,
+        options
+      );
+    }
+
+    /** Adds tags to a group; `removeFromSource` takes them out of their current groups */
+    addTags(
+      groupId: string,
+      tags: string[],
+      removeFromSource?: boolean,
+      options?: EagleWebApiRequestOptions
+    ) {
+      return this.client.request<EagleWebApiTagGroup>(
+        'tagGroup/addTags',
+        'POST',
+        { id: groupId, tags, removeFromSource },
+        undefined,
+        options
+      );
+    }
+
+    removeTags(groupId: string, tags: string[], options?: EagleWebApiRequestOptions) {
+      return this.client.request<EagleWebApiTagGroup>(
+        'tagGroup/removeTags',
+        'POST',
+        { id: groupId, tags },
+        undefined,
+        options
+      );
+    }
+  };
+}
+
+function toFilterableApiItem(item: EagleWebApiItem): FilterableItem {
+  return {
+    ...item,
+    star: item.star ?? 0,
+    importedAt: item.modificationTime,
+    modifiedAt: item.lastModified,
+  };
+}
+
+/** Looks for a Node error `code` along the `cause` chain (fetch wraps socket errors) */
+function hasErrorCode(error: unknown, code: string): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if ((current as NodeJS.ErrnoException).code === code) return true;
+    if (current instanceof AggregateError && current.errors.some((e) => hasErrorCode(e, code))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    signal.throwIfAborted();
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    void promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
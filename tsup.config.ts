@@ -7,6 +7,7 @@ export default defineConfig({
     'win/index': 'src/win/index.ts',
     'mac/index': 'src/mac/index.ts',
     'utils/index': 'src/utils/index.ts',
+    'testing/index': 'src/testing/index.ts',
   },
   format: ['esm', 'cjs'],
   dts: true,